@@ -1,10 +1,24 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, FlatList } from 'react-native';
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, FlatList, Alert } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Calendar, Clock, Star, CreditCard as Edit3 } from 'lucide-react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { Calendar, Clock, Star, CreditCard as Edit3, Coffee } from 'lucide-react-native';
 import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
 import { SleepSession } from '@/types/sleep';
 import { StorageService } from '@/services/storage';
+import { saveSessionWithAlerts } from '@/services/sessionAlerts';
+import HypnogramChart from '@/components/HypnogramChart';
+import { getSensorSavings } from '@/services/dutyCycle';
+import { getSleepEfficiency, getTimeAsleep, getTimeInBed } from '@/services/sleepTiming';
+import { getNightKey } from '@/services/detectionLog';
+import {
+  formatSessionDate,
+  formatSessionTime,
+  getClockShift,
+  getLocalDayKey,
+  getSessionDayKey,
+  isRecordedElsewhere,
+} from '@/services/timeZones';
 
 export default function History() {
   const [sleepSessions, setSleepSessions] = useState<SleepSession[]>([]);
@@ -16,9 +30,12 @@ export default function History() {
     'Inter-Bold': Inter_700Bold,
   });
 
-  useEffect(() => {
-    loadSleepHistory();
-  }, [selectedPeriod]);
+  // Reload on focus so edits made in the session times screen show up
+  useFocusEffect(
+    useCallback(() => {
+      loadSleepHistory();
+    }, [selectedPeriod])
+  );
 
   const loadSleepHistory = async () => {
     let sessions: SleepSession[] = [];
@@ -46,36 +63,63 @@ export default function History() {
     return `${hours}h ${minutes}m`;
   };
 
-  const formatTime = (date: Date): string => {
-    return new Date(date).toLocaleTimeString('en-US', {
+  // Times and days are shown as they were where the session was recorded
+  const formatTime = (session: SleepSession, date: Date): string => {
+    return formatSessionTime(session, new Date(date), {
       hour: 'numeric',
       minute: '2-digit',
       hour12: true,
-    });
+    }, 'en-US');
   };
 
-  const formatDate = (date: Date): string => {
+  const formatDate = (session: SleepSession): string => {
     const today = new Date();
-    const sessionDate = new Date(date);
+    const sessionDay = getSessionDayKey(session);
     
-    if (sessionDate.toDateString() === today.toDateString()) {
+    if (sessionDay === getLocalDayKey(today)) {
       return 'Hoy';
     }
     
     const yesterday = new Date(today);
     yesterday.setDate(yesterday.getDate() - 1);
     
-    if (sessionDate.toDateString() === yesterday.toDateString()) {
+    if (sessionDay === getLocalDayKey(yesterday)) {
       return 'Ayer';
     }
     
-    return sessionDate.toLocaleDateString('es-ES', {
+    return formatSessionDate(session, new Date(session.bedtime), {
       weekday: 'short',
       month: 'short',
       day: 'numeric',
     });
   };
 
+  const formatClockShift = (minutes: number): string => {
+    const hours = Math.abs(minutes) / 60;
+    return `${minutes > 0 ? '+' : '-'}${Number.isInteger(hours) ? hours : hours.toFixed(1)}h`;
+  };
+
+  // The other session may have been deleted or merged since
+  const hasOverlap = (session: SleepSession): boolean =>
+    !!session.overlapsWith?.some(id => sleepSessions.some(other => other.id === id));
+
+  const handleOverlapPress = (session: SleepSession) => {
+    Alert.alert(
+      'Sesiones Solapadas',
+      'Esta sesión coincide con otra registrada a la misma hora. Puedes combinarlas en una sola o mantener ambas.',
+      [
+        { text: 'Mantener Ambas', style: 'cancel' },
+        {
+          text: 'Combinar',
+          onPress: async () => {
+            await saveSessionWithAlerts(session, 'merge');
+            loadSleepHistory();
+          },
+        },
+      ]
+    );
+  };
+
   const getQualityColor = (quality: number): string => {
     if (quality >= 80) return '#48bb78';
     if (quality >= 60) return '#ed8936';
@@ -83,15 +127,40 @@ export default function History() {
   };
 
   const renderSleepSession = ({ item }: { item: SleepSession }) => (
-    <View style={styles.sessionCard}>
+    <View style={[styles.sessionCard, item.kind === 'nap' && styles.napCard]}>
       <View style={styles.sessionHeader}>
         <View>
-          <Text style={styles.sessionDate}>{formatDate(item.bedtime)}</Text>
+          <View style={styles.sessionTitleRow}>
+            <Text style={styles.sessionDate}>{formatDate(item)}</Text>
+            {item.kind === 'nap' && (
+              <View style={styles.napBadge}>
+                <Coffee size={12} color="#ffffff" />
+                <Text style={styles.napBadgeText}>Siesta</Text>
+              </View>
+            )}
+            {item.reviewStatus === 'pending' && (
+              <TouchableOpacity style={[styles.napBadge, styles.reviewBadge]} onPress={() => router.push('/review')}>
+                <Text style={styles.napBadgeText}>Por revisar</Text>
+              </TouchableOpacity>
+            )}
+            {hasOverlap(item) && (
+              <TouchableOpacity style={[styles.napBadge, styles.overlapBadge]} onPress={() => handleOverlapPress(item)}>
+                <Text style={styles.napBadgeText}>Solapada</Text>
+              </TouchableOpacity>
+            )}
+          </View>
           <Text style={styles.sessionTime}>
-            {formatTime(item.bedtime)} - {item.wakeTime ? formatTime(item.wakeTime) : 'Aún durmiendo'}
+            {formatTime(item, item.bedtime)} - {item.wakeTime ? formatTime(item, item.wakeTime) : 'Aún durmiendo'}
           </Text>
+          {isRecordedElsewhere(item) && (
+            <Text style={styles.sessionZone}>Hora de {item.timeZone ?? 'otra zona horaria'}</Text>
+          )}
         </View>
-        <TouchableOpacity style={styles.editButton}>
+        <TouchableOpacity
+          style={styles.editButton}
+          disabled={!item.wakeTime}
+          onPress={() => router.push({ pathname: '/session-times', params: { sessionId: item.id } })}
+        >
           <Edit3 size={16} color="#718096" />
         </TouchableOpacity>
       </View>
@@ -121,6 +190,53 @@ export default function History() {
           <Text style={styles.statLabel}>Detección</Text>
         </View>
       </View>
+
+      {getClockShift(item) !== 0 && (
+        <Text style={styles.interruptionsText}>
+          Cambio de hora durante la noche ({formatClockShift(getClockShift(item))}): la duración ya lo tiene en cuenta
+        </Text>
+      )}
+
+      {item.wakeTime && (item.inBedTime || item.sleepOnset) && (
+        <Text style={styles.interruptionsText}>
+          En cama {formatDuration(getTimeInBed(item))} · Dormido {formatDuration(getTimeAsleep(item))} · Eficiencia {Math.round(getSleepEfficiency(item) ?? 0)}%
+        </Text>
+      )}
+
+      {!!item.interruptionCount && (
+        <Text style={styles.interruptionsText}>
+          {item.interruptionCount} {item.interruptionCount === 1 ? 'despertar' : 'despertares'} · {formatDuration(item.wakeAfterSleepOnset ?? 0)} despierto
+        </Text>
+      )}
+
+      {item.alarm && (
+        <Text style={styles.interruptionsText}>
+          Alarma inteligente a las {formatSessionTime(item, new Date(item.alarm.firedAt))}
+          {item.alarm.reason === 'light-sleep' ? ' en sueño ligero' : ''}
+        </Text>
+      )}
+
+      {item.hypnogram && <HypnogramChart hypnogram={item.hypnogram} />}
+
+      {item.sensorUsage && item.sensorUsage.trackedTime > 0 && (
+        <Text style={styles.interruptionsText}>
+          Sensor activo {formatDuration(item.sensorUsage.sensorOnTime)} · {Math.round(getSensorSavings(item.sensorUsage) * 100)}% de ahorro de batería
+        </Text>
+      )}
+
+      {item.gaps && item.gaps.length > 0 && (
+        <Text style={styles.gapNotice}>
+          Datos incompletos: la app se cerró durante la noche
+        </Text>
+      )}
+
+      {!item.isManual && (
+        <TouchableOpacity
+          onPress={() => router.push({ pathname: '/detection-log', params: { night: getNightKey(item.bedtime) } })}
+        >
+          <Text style={styles.detectionLogLink}>¿Por qué se detectó así?</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 
@@ -128,6 +244,9 @@ export default function History() {
     return null;
   }
 
+  // Averages describe main sleep; naps have their own statistics
+  const mainSessions = sleepSessions.filter(session => session.kind !== 'nap');
+
   return (
     <LinearGradient
       colors={['#1a365d', '#2d3748']}
@@ -162,8 +281,8 @@ export default function History() {
       <View style={styles.summaryContainer}>
         <View style={styles.summaryCard}>
           <Text style={styles.summaryValue}>
-            {sleepSessions.length > 0 
-              ? formatDuration(sleepSessions.reduce((acc, session) => acc + session.duration, 0) / sleepSessions.length)
+            {mainSessions.length > 0 
+              ? formatDuration(mainSessions.reduce((acc, session) => acc + session.duration, 0) / mainSessions.length)
               : '0h 0m'
             }
           </Text>
@@ -172,8 +291,8 @@ export default function History() {
         
         <View style={styles.summaryCard}>
           <Text style={styles.summaryValue}>
-            {sleepSessions.length > 0 
-              ? Math.round(sleepSessions.reduce((acc, session) => acc + session.quality, 0) / sleepSessions.length)
+            {mainSessions.length > 0 
+              ? Math.round(mainSessions.reduce((acc, session) => acc + session.quality, 0) / mainSessions.length)
               : 0
             }%
           </Text>
@@ -281,6 +400,36 @@ const styles = StyleSheet.create({
     alignItems: 'flex-start',
     marginBottom: 16,
   },
+  napCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#9f7aea',
+  },
+  sessionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  napBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#9f7aea',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginLeft: 8,
+    marginBottom: 4,
+  },
+  reviewBadge: {
+    backgroundColor: '#ed8936',
+  },
+  overlapBadge: {
+    backgroundColor: '#e53e3e',
+  },
+  napBadgeText: {
+    fontSize: 11,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+    marginLeft: 4,
+  },
   sessionDate: {
     fontSize: 16,
     fontFamily: 'Inter-SemiBold',
@@ -292,6 +441,12 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     color: '#718096',
   },
+  sessionZone: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#a0aec0',
+    marginTop: 2,
+  },
   editButton: {
     padding: 8,
   },
@@ -315,6 +470,27 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     color: '#718096',
   },
+  interruptionsText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#718096',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  detectionLogLink: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#4fd1c7',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  gapNotice: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#ed8936',
+    marginTop: 12,
+    textAlign: 'center',
+  },
   confidenceIndicator: {
     width: 20,
     height: 20,
@@ -1,21 +1,49 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Dimensions } from 'react-native';
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Dimensions, Alert, Vibration, AppState, Linking } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Moon, Sun, CreditCard as Edit3, Calendar } from 'lucide-react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { Moon, Sun, CreditCard as Edit3, Calendar, Coffee, CircleAlert as AlertCircle, BellRing } from 'lucide-react-native';
 import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
-import { SleepSession } from '@/types/sleep';
+import { AlarmTrigger, SleepSchedule, SleepSession, SmartAlarm } from '@/types/sleep';
 import SleepDetectionService from '@/services/sleepDetection';
 import { StorageService } from '@/services/storage';
+import { classifySessionKind, isNapWindow } from '@/services/napDetection';
+import { getNextWakeTime } from '@/services/smartAlarm';
+import { SessionValidationError } from '@/services/sessionValidation';
+import { alertSessionIssues, saveSessionWithAlerts } from '@/services/sessionAlerts';
+import {
+  DEFAULT_SLEEP_SCHEDULE,
+  getDueBedtimeReminder,
+  getNextSleepWindow,
+  toMinutesOfDay,
+} from '@/services/sleepSchedule';
+import { TrackingAction } from '@/services/trackingLifecycle';
 import SleepDurationDisplay from '@/components/SleepDurationDisplay';
 import SleepQualityRing from '@/components/SleepQualityRing';
 import WeeklyTrendChart from '@/components/WeeklyTrendChart';
+import SmartAlarmCard from '@/components/SmartAlarmCard';
+import TrackingStatusCard from '@/components/TrackingStatusCard';
+import { useSleepDetection } from '@/hooks/useSleepDetection';
 
 const { width } = Dimensions.get('window');
 
+const ALARM_VIBRATION_PATTERN = [0, 800, 400];
+
+const ALARM_MESSAGES: Record<AlarmTrigger, string> = {
+  'light-sleep': 'Estás en sueño ligero, es un buen momento para levantarte.',
+  deadline: 'Has llegado a la hora límite que elegiste para despertarte.',
+  snooze: 'Se acabó el tiempo de posponer.',
+};
+
 export default function Dashboard() {
-  const [currentSession, setCurrentSession] = useState<SleepSession | null>(null);
+  const [storedSession, setStoredSession] = useState<SleepSession | null>(null);
+  const [todaysNaps, setTodaysNaps] = useState<SleepSession[]>([]);
   const [weeklyData, setWeeklyData] = useState<SleepSession[]>([]);
-  const [isTracking, setIsTracking] = useState(false);
+  const detection = useSleepDetection();
+  const [smartAlarm, setSmartAlarm] = useState<SmartAlarm | null>(null);
+  const [pendingReviewCount, setPendingReviewCount] = useState(0);
+  const [sleepSchedule, setSleepSchedule] = useState<SleepSchedule>(DEFAULT_SLEEP_SCHEDULE);
+  const [remindersEnabled, setRemindersEnabled] = useState(false);
 
   const [fontsLoaded] = useFonts({
     'Inter-Regular': Inter_400Regular,
@@ -26,16 +54,68 @@ export default function Dashboard() {
   useEffect(() => {
     loadTodaysSleep();
     loadWeeklyData();
-    initializeSleepTracking();
+    SleepDetectionService.initializeTracking();
+    loadSmartAlarm();
+  }, []);
+
+  // Permission may have been granted in the system settings meanwhile
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        SleepDetectionService.initializeTracking();
+      }
+    });
+    return () => subscription.remove();
   }, []);
 
+  useEffect(() => {
+    const subscription = SleepDetectionService.addAlarmListener(event => {
+      Vibration.vibrate(ALARM_VIBRATION_PATTERN, true);
+      Alert.alert('¡Hora de Despertar!', ALARM_MESSAGES[event.reason], [
+        { text: 'Posponer', onPress: handleSnoozeAlarm },
+        { text: 'Apagar', onPress: handleDismissAlarm },
+      ]);
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Sessions opened or closed by automatic detection change today's summary
+  useEffect(() => {
+    const eventType = detection.lastEvent?.type;
+    if (eventType === 'session-opened' || eventType === 'session-closed') {
+      loadTodaysSleep();
+      loadWeeklyData();
+      loadPendingReviewCount();
+    }
+  }, [detection.lastEvent]);
+
+  // Reviews are handled in a modal and the schedule in settings, so refresh
+  // both when coming back
+  useFocusEffect(
+    useCallback(() => {
+      loadPendingReviewCount();
+      loadScheduleSettings();
+    }, [])
+  );
+
+  const loadScheduleSettings = async () => {
+    const settings = await StorageService.getSettings();
+    setSleepSchedule(settings.sleepSchedule ?? DEFAULT_SLEEP_SCHEDULE);
+    setRemindersEnabled(settings.notificationsEnabled ?? false);
+  };
+
+  const loadPendingReviewCount = async () => {
+    const pending = await StorageService.getPendingReviewSessions();
+    setPendingReviewCount(pending.length);
+  };
+
   const loadTodaysSleep = async () => {
-    const today = new Date().toDateString();
-    const sessions = await StorageService.getSleepSessions();
-    const todaySession = sessions.find(session => 
-      new Date(session.bedtime).toDateString() === today
-    );
-    setCurrentSession(todaySession || null);
+    const todaySessions = await StorageService.getSleepSessionsForDay(new Date());
+    // An open session (main or nap) takes the main card; otherwise show main sleep
+    const todaySession = todaySessions.find(session => !session.wakeTime)
+      || todaySessions.find(session => session.kind === 'main');
+    setStoredSession(todaySession || null);
+    setTodaysNaps(todaySessions.filter(session => session.kind === 'nap' && session.wakeTime));
   };
 
   const loadWeeklyData = async () => {
@@ -43,39 +123,128 @@ export default function Dashboard() {
     setWeeklyData(sessions);
   };
 
-  const initializeSleepTracking = async () => {
-    const trackingStatus = await SleepDetectionService.isTracking();
-    setIsTracking(trackingStatus);
-    
-    if (!trackingStatus) {
-      await SleepDetectionService.startTracking();
-      setIsTracking(true);
+  const handleTrackingAction = async (action: TrackingAction) => {
+    switch (action) {
+      case 'enable':
+        await detection.setAutoDetectionEnabled(true);
+        break;
+      case 'open-settings':
+        await Linking.openSettings();
+        break;
+      case 'pause':
+        await detection.stopTracking();
+        break;
+      case 'request-permission':
+      case 'resume':
+      case 'retry':
+        await detection.startTracking();
+        break;
     }
   };
 
+  const loadSmartAlarm = async () => {
+    setSmartAlarm(await SleepDetectionService.getSmartAlarm());
+  };
+
+  const handleScheduleAlarm = async (hour: number, minute: number, windowMinutes: number) => {
+    try {
+      const alarm = await SleepDetectionService.scheduleSmartAlarm(
+        getNextWakeTime(hour, minute, new Date()),
+        windowMinutes
+      );
+      setSmartAlarm(alarm);
+    } catch (error) {
+      console.error('Failed to schedule smart alarm:', error);
+      Alert.alert('Error', 'La alarma solo puede sonar con la detección automática activa');
+    }
+  };
+
+  const handleCancelAlarm = async () => {
+    await SleepDetectionService.cancelSmartAlarm();
+    setSmartAlarm(null);
+  };
+
+  const handleSnoozeAlarm = async () => {
+    Vibration.cancel();
+    await SleepDetectionService.snoozeSmartAlarm();
+    setSmartAlarm(await SleepDetectionService.getSmartAlarm());
+  };
+
+  const handleDismissAlarm = async () => {
+    Vibration.cancel();
+    await SleepDetectionService.dismissSmartAlarm();
+    setSmartAlarm(null);
+  };
+
+  const handleEditLastSleep = async () => {
+    const sessions = await StorageService.getSleepSessions();
+    const lastSession = sessions
+      .filter(session => session.wakeTime)
+      .sort((a, b) => b.bedtime.getTime() - a.bedtime.getTime())[0];
+    if (!lastSession) return;
+
+    router.push({ pathname: '/session-times', params: { sessionId: lastSession.id } });
+  };
+
+  // An open automatic session lives in the detection service, not in storage
+  const currentSession = detection.currentSession ?? storedSession;
+
   const handleManualSleepToggle = async () => {
-    if (currentSession && !currentSession.wakeTime) {
+    if (detection.currentSession) {
+      try {
+        await detection.endCurrentSession();
+      } catch (error) {
+        if (!(error instanceof SessionValidationError)) throw error;
+        alertSessionIssues(error);
+      }
+    } else if (currentSession && !currentSession.wakeTime) {
       // Mark as awake
-      const updatedSession = {
+      const duration = Date.now() - new Date(currentSession.bedtime).getTime();
+      const wakeTime = new Date();
+      const updatedSession = await saveSessionWithAlerts({
         ...currentSession,
-        wakeTime: new Date(),
-        duration: Date.now() - new Date(currentSession.bedtime).getTime(),
-      };
-      await StorageService.saveSleepSession(updatedSession);
-      setCurrentSession(updatedSession);
+        kind: classifySessionKind(new Date(currentSession.bedtime), duration, sleepSchedule),
+        wakeTime,
+        duration,
+        outOfBedTime: wakeTime,
+      });
+      if (!updatedSession) return;
+
+      Alert.alert(
+        '¿Cuándo te dormiste?',
+        'Indica cuándo te dormiste y te despertaste para calcular tu eficiencia del sueño.',
+        [
+          { text: 'Ahora no', style: 'cancel' },
+          {
+            text: 'Ajustar',
+            onPress: () => router.push({ pathname: '/session-times', params: { sessionId: updatedSession.id } }),
+          },
+        ]
+      );
+      if (updatedSession.kind === 'nap') {
+        setTodaysNaps([...todaysNaps, updatedSession]);
+        loadTodaysSleep();
+      } else {
+        setStoredSession(updatedSession);
+      }
     } else {
       // Start new sleep session
+      const now = new Date();
       const newSession: SleepSession = {
         id: Date.now().toString(),
-        bedtime: new Date(),
+        kind: isNapWindow(now, sleepSchedule) ? 'nap' : 'main',
+        bedtime: now,
         wakeTime: null,
         duration: 0,
+        inBedTime: now,
         quality: 0,
         isManual: true,
         confidence: 1.0,
       };
-      await StorageService.saveSleepSession(newSession);
-      setCurrentSession(newSession);
+      const savedSession = await saveSessionWithAlerts(newSession);
+      if (savedSession) {
+        setStoredSession(savedSession);
+      }
     }
   };
 
@@ -84,8 +253,15 @@ export default function Dashboard() {
   }
 
   const isCurrentlyAsleep = currentSession && !currentSession.wakeTime;
+  const isNapping = isCurrentlyAsleep && currentSession.kind === 'nap';
+  const napDuration = todaysNaps.reduce((total, nap) => total + nap.duration, 0);
   const sleepDuration = currentSession?.duration || 0;
   const sleepQuality = currentSession?.quality || 0;
+  const now = new Date();
+  const bedtimeReminder = remindersEnabled && !isCurrentlyAsleep
+    ? getDueBedtimeReminder(sleepSchedule, now)
+    : null;
+  const scheduledWakeMinutes = toMinutesOfDay(getNextSleepWindow(sleepSchedule, now).end);
 
   return (
     <LinearGradient
@@ -101,6 +277,27 @@ export default function Dashboard() {
             month: 'long', 
             day: 'numeric' 
           })}</Text>
+          {pendingReviewCount > 0 && (
+            <TouchableOpacity style={styles.reviewBadge} onPress={() => router.push('/review')}>
+              <AlertCircle size={16} color="#1a365d" />
+              <Text style={styles.reviewBadgeText}>
+                {pendingReviewCount === 1 ? '1 sesión por revisar' : `${pendingReviewCount} sesiones por revisar`}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {bedtimeReminder && (
+            <View style={styles.reminderRow}>
+              <BellRing size={16} color="#4fd1c7" />
+              <Text style={styles.reminderText}>
+                Tu horario de sueño empieza a las {bedtimeReminder.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {/* Automatic Detection */}
+        <View style={styles.trackingCard}>
+          <TrackingStatusCard status={detection.trackingStatus} onAction={handleTrackingAction} />
         </View>
 
         {/* Main Sleep Display */}
@@ -110,13 +307,15 @@ export default function Dashboard() {
             style={styles.cardGradient}
           >
             <View style={styles.sleepStatusContainer}>
-              {isCurrentlyAsleep ? (
+              {isNapping ? (
+                <Coffee size={32} color="#9f7aea" />
+              ) : isCurrentlyAsleep ? (
                 <Moon size={32} color="#4fd1c7" />
               ) : (
                 <Sun size={32} color="#ed8936" />
               )}
               <Text style={styles.sleepStatus}>
-                {isCurrentlyAsleep ? 'Durmiendo' : 'Despierto'}
+                {isNapping ? 'Tomando una Siesta' : isCurrentlyAsleep ? 'Durmiendo' : 'Despierto'}
               </Text>
             </View>
 
@@ -137,9 +336,29 @@ export default function Dashboard() {
                 {isCurrentlyAsleep ? 'Marcar como Despierto' : 'Iniciar Sesión de Sueño'}
               </Text>
             </TouchableOpacity>
+
+            {todaysNaps.length > 0 && (
+              <View style={styles.napSummary}>
+                <Coffee size={16} color="#9f7aea" />
+                <Text style={styles.napSummaryText}>
+                  {todaysNaps.length === 1 ? '1 siesta hoy' : `${todaysNaps.length} siestas hoy`} · {Math.floor(napDuration / (1000 * 60 * 60))}h {Math.floor((napDuration % (1000 * 60 * 60)) / (1000 * 60))}m
+                </Text>
+              </View>
+            )}
           </LinearGradient>
         </View>
 
+        {/* Smart Alarm */}
+        <View style={styles.alarmCard}>
+          <SmartAlarmCard
+            alarm={smartAlarm}
+            onSchedule={handleScheduleAlarm}
+            onCancel={handleCancelAlarm}
+            trackingActive={detection.trackingStatus.state === 'active'}
+            defaultWakeMinutes={scheduledWakeMinutes}
+          />
+        </View>
+
         {/* Quick Stats */}
         <View style={styles.statsContainer}>
           <View style={styles.statCard}>
@@ -169,7 +388,7 @@ export default function Dashboard() {
 
         {/* Quick Actions */}
         <View style={styles.actionsContainer}>
-          <TouchableOpacity style={styles.actionButton}>
+          <TouchableOpacity style={styles.actionButton} onPress={handleEditLastSleep}>
             <Edit3 size={20} color="#1a365d" />
             <Text style={styles.actionText}>Editar Último Sueño</Text>
           </TouchableOpacity>
@@ -202,6 +421,37 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Regular',
     color: '#a0aec0',
   },
+  reviewBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: '#ed8936',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginTop: 12,
+  },
+  reviewBadgeText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1a365d',
+    marginLeft: 6,
+  },
+  reminderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  reminderText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#e2e8f0',
+    marginLeft: 6,
+  },
+  trackingCard: {
+    marginHorizontal: 24,
+    marginBottom: 24,
+  },
   mainCard: {
     marginHorizontal: 24,
     marginBottom: 24,
@@ -240,6 +490,21 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-SemiBold',
     color: '#1a365d',
   },
+  napSummary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  napSummaryText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#718096',
+    marginLeft: 8,
+  },
+  alarmCard: {
+    marginHorizontal: 24,
+    marginBottom: 24,
+  },
   statsContainer: {
     flexDirection: 'row',
     paddingHorizontal: 24,
@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { TrendingUp, Target, Award, CircleAlert as AlertCircle } from 'lucide-react-native';
+import { TrendingUp, Target, Award, CircleAlert as AlertCircle, Coffee, Hourglass, BedDouble, Plane } from 'lucide-react-native';
 import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
-import { SleepSession } from '@/types/sleep';
+import { JetLagTrip, SleepSchedule, SleepSession } from '@/types/sleep';
 import { StorageService } from '@/services/storage';
 import { SleepAnalytics } from '@/services/analytics';
+import { buildJetLagPlan, getJetLagAdaptation, getJetLagPlanRange, trackJetLagPlan } from '@/services/jetLag';
 
 interface InsightCard {
   id: string;
@@ -36,12 +37,25 @@ export default function Insights() {
       ? await StorageService.getWeeklySleepSessions()
       : await StorageService.getMonthlySleepSessions();
     
+    const settings = await StorageService.getSettings();
+    const trip = await StorageService.getJetLagTrip();
+    // Trip nights can fall outside the selected timeframe
+    const tripRange = trip ? getJetLagPlanRange(buildJetLagPlan(trip)) : null;
+    const tripSessions = tripRange
+      ? await StorageService.getSleepSessionsInRange(tripRange.start, tripRange.end)
+      : [];
+    
     setSleepSessions(sessions);
-    generateInsights(sessions);
+    generateInsights(sessions, settings.sleepSchedule, trip, tripSessions);
   };
 
-  const generateInsights = (sessions: SleepSession[]) => {
-    const analytics = new SleepAnalytics(sessions);
+  const generateInsights = (
+    sessions: SleepSession[],
+    schedule?: SleepSchedule,
+    trip?: JetLagTrip | null,
+    tripSessions: SleepSession[] = []
+  ) => {
+    const analytics = new SleepAnalytics(sessions, schedule);
     
     const newInsights: InsightCard[] = [
       {
@@ -86,6 +100,89 @@ export default function Insights() {
       }
     ];
 
+    const pendingReviewCount = analytics.getPendingReviewCount();
+    if (pendingReviewCount > 0) {
+      newInsights.push({
+        id: 'pending-review',
+        title: 'Sesiones por Revisar',
+        value: `${pendingReviewCount}`,
+        description: 'Hay sesiones detectadas con poca confianza que no se incluyen en este análisis hasta que las confirmes.',
+        type: 'warning',
+        icon: <AlertCircle size={24} color="#ed8936" />
+      });
+    }
+
+    const latency = analytics.getAverageSleepOnsetLatency();
+    if (latency !== null) {
+      const latencyMinutes = Math.round(latency / (1000 * 60));
+      newInsights.push({
+        id: 'latency',
+        title: 'Latencia del Sueño',
+        value: `${latencyMinutes} min`,
+        description: latencyMinutes > 30
+          ? 'Tardas en dormirte. Evita pantallas y cafeína antes de acostarte.'
+          : 'Te duermes en un tiempo saludable después de acostarte.',
+        type: latencyMinutes > 30 ? 'warning' : 'positive',
+        icon: <Hourglass size={24} color={latencyMinutes > 30 ? '#ed8936' : '#48bb78'} />
+      });
+    }
+
+    const efficiency = analytics.getAverageSleepEfficiency();
+    if (efficiency !== null) {
+      newInsights.push({
+        id: 'efficiency',
+        title: 'Eficiencia del Sueño',
+        value: `${Math.round(efficiency)}%`,
+        description: efficiency >= 85
+          ? 'Pasas casi todo el tiempo en cama durmiendo.'
+          : 'Pasas mucho tiempo despierto en la cama. Acuéstate solo cuando tengas sueño.',
+        type: efficiency >= 85 ? 'positive' : 'warning',
+        icon: <BedDouble size={24} color={efficiency >= 85 ? '#48bb78' : '#ed8936'} />
+      });
+    }
+
+    const napStats = analytics.getNapStats();
+    if (napStats.count > 0) {
+      const napMinutes = Math.round(napStats.averageDuration / (1000 * 60));
+      newInsights.push({
+        id: 'naps',
+        title: 'Siestas',
+        value: `${napStats.count} · ${napMinutes} min promedio`,
+        description: napMinutes > 30
+          ? 'Las siestas de más de 30 minutos pueden dificultar dormir por la noche.'
+          : 'Tus siestas son cortas, ideales para recargar energía.',
+        type: napMinutes > 30 ? 'warning' : 'positive',
+        icon: <Coffee size={24} color={napMinutes > 30 ? '#ed8936' : '#48bb78'} />
+      });
+    }
+
+    const tripPlan = trip ? buildJetLagPlan(trip) : [];
+    if (trip && tripPlan.length > 0) {
+      const adaptation = getJetLagAdaptation(trip, trackJetLagPlan(tripPlan, tripSessions));
+      if (adaptation) {
+        const adapted = adaptation.adaptation >= 0.9;
+        newInsights.push({
+          id: 'jet-lag',
+          title: 'Adaptación al Viaje',
+          value: `${Math.round(adaptation.adaptation * 100)}%`,
+          description: adapted
+            ? 'Tu sueño ya sigue el horario del destino.'
+            : `Tu última noche quedó a ${Math.round(adaptation.remaining / 60 * 10) / 10}h de tu hora habitual en el destino. Sigue el plan de luz.`,
+          type: adapted ? 'positive' : 'neutral',
+          icon: <Plane size={24} color={adapted ? '#48bb78' : '#4fd1c7'} />
+        });
+      } else {
+        newInsights.push({
+          id: 'jet-lag',
+          title: 'Adaptación al Viaje',
+          value: 'Sin datos',
+          description: 'Medirás tu adaptación cuando registres tus primeras noches en el destino.',
+          type: 'neutral',
+          icon: <Plane size={24} color="#718096" />
+        });
+      }
+    }
+
     setInsights(newInsights);
   };
 
@@ -104,6 +201,9 @@ export default function Insights() {
     return null;
   }
 
+  // Averages describe main sleep; naps have their own statistics
+  const mainSessions = sleepSessions.filter(session => session.kind !== 'nap');
+
   return (
     <LinearGradient
       colors={['#1a365d', '#2d3748']}
@@ -152,8 +252,8 @@ export default function Insights() {
         <View style={styles.metricsContainer}>
           <View style={styles.metricCard}>
             <Text style={styles.metricValue}>
-              {sleepSessions.length > 0 
-                ? `${Math.floor((sleepSessions.reduce((acc, s) => acc + s.duration, 0) / sleepSessions.length) / (1000 * 60 * 60))}h ${Math.floor(((sleepSessions.reduce((acc, s) => acc + s.duration, 0) / sleepSessions.length) % (1000 * 60 * 60)) / (1000 * 60))}m`
+              {mainSessions.length > 0 
+                ? `${Math.floor((mainSessions.reduce((acc, s) => acc + s.duration, 0) / mainSessions.length) / (1000 * 60 * 60))}h ${Math.floor(((mainSessions.reduce((acc, s) => acc + s.duration, 0) / mainSessions.length) % (1000 * 60 * 60)) / (1000 * 60))}m`
                 : '0h 0m'
               }
             </Text>
@@ -162,8 +262,8 @@ export default function Insights() {
           
           <View style={styles.metricCard}>
             <Text style={styles.metricValue}>
-              {sleepSessions.length > 0 
-                ? `${Math.round(sleepSessions.reduce((acc, s) => acc + s.quality, 0) / sleepSessions.length)}%`
+              {mainSessions.length > 0 
+                ? `${Math.round(mainSessions.reduce((acc, s) => acc + s.quality, 0) / mainSessions.length)}%`
                 : '0%'
               }
             </Text>
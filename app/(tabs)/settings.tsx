@@ -1,26 +1,42 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch, Alert } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Bell, Shield, Smartphone, Moon, Download, Trash2, CircleHelp as HelpCircle, ChevronRight } from 'lucide-react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { Bell, Shield, Smartphone, Moon, Download, Trash2, CircleHelp as HelpCircle, ChevronRight, Gauge, Crosshair, Activity, Timer, FileSearch, ClipboardCheck, CalendarClock, Plane } from 'lucide-react-native';
 import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
-import { SleepDetectionService } from '@/services/sleepDetection';
+import { DetectionSensitivity, MotionBaseline, SleepSchedule } from '@/types/sleep';
+import detectionService from '@/services/sleepDetection';
 import { StorageService } from '@/services/storage';
+import { BASELINE_NIGHTS, isBaselineReady } from '@/services/motionBaseline';
+import { DEFAULT_SLEEP_SCHEDULE, describeSleepSchedule } from '@/services/sleepSchedule';
+import { TRACKING_STATE_LABELS } from '@/services/trackingLifecycle';
+import { useSleepDetection } from '@/hooks/useSleepDetection';
 
 interface SettingItem {
   id: string;
   title: string;
   description: string;
-  type: 'toggle' | 'navigation' | 'action';
+  type: 'toggle' | 'navigation' | 'action' | 'choice';
   icon: React.ReactNode;
   value?: boolean;
+  options?: { value: string; label: string }[];
+  selected?: string;
   onPress?: () => void;
   onToggle?: (value: boolean) => void;
+  onSelect?: (value: string) => void;
 }
 
 export default function Settings() {
   const [autoDetectionEnabled, setAutoDetectionEnabled] = useState(true);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
   const [batteryOptimized, setBatteryOptimized] = useState(true);
+  const [detectionSensitivity, setDetectionSensitivity] = useState<DetectionSensitivity>('medium');
+  const [hasCustomProfile, setHasCustomProfile] = useState(false);
+  const [sustainedWakeMinutes, setSustainedWakeMinutes] = useState(20);
+  const [reviewConfidenceThreshold, setReviewConfidenceThreshold] = useState(0.75);
+  const [motionBaseline, setMotionBaseline] = useState<MotionBaseline | null>(null);
+  const [sleepSchedule, setSleepSchedule] = useState<SleepSchedule>(DEFAULT_SLEEP_SCHEDULE);
+  const { trackingStatus } = useSleepDetection();
 
   const [fontsLoaded] = useFonts({
     'Inter-Regular': Inter_400Regular,
@@ -28,26 +44,30 @@ export default function Settings() {
     'Inter-Bold': Inter_700Bold,
   });
 
-  useEffect(() => {
-    loadSettings();
-  }, []);
+  // Reload on focus so a profile saved by the calibration screen, or a
+  // schedule saved by the schedule editor, shows up
+  useFocusEffect(
+    useCallback(() => {
+      loadSettings();
+    }, [])
+  );
 
   const loadSettings = async () => {
     const settings = await StorageService.getSettings();
     setAutoDetectionEnabled(settings.autoDetectionEnabled ?? true);
     setNotificationsEnabled(settings.notificationsEnabled ?? false);
     setBatteryOptimized(settings.batteryOptimized ?? true);
+    setDetectionSensitivity(settings.detectionSensitivity ?? 'medium');
+    setHasCustomProfile(!!settings.customThresholds);
+    setSustainedWakeMinutes(settings.sustainedWakeMinutes ?? 20);
+    setReviewConfidenceThreshold(settings.reviewConfidenceThreshold ?? 0.75);
+    setSleepSchedule(settings.sleepSchedule ?? DEFAULT_SLEEP_SCHEDULE);
+    setMotionBaseline(await detectionService.getMotionBaseline());
   };
 
   const handleAutoDetectionToggle = async (value: boolean) => {
     setAutoDetectionEnabled(value);
-    await StorageService.updateSettings({ autoDetectionEnabled: value });
-    
-    if (value) {
-      await SleepDetectionService.startTracking();
-    } else {
-      await SleepDetectionService.stopTracking();
-    }
+    await detectionService.setAutoDetectionEnabled(value);
   };
 
   const handleNotificationsToggle = async (value: boolean) => {
@@ -58,6 +78,71 @@ export default function Settings() {
   const handleBatteryOptimizationToggle = async (value: boolean) => {
     setBatteryOptimized(value);
     await StorageService.updateSettings({ batteryOptimized: value });
+    await detectionService.reloadSettings();
+  };
+
+  const handleSensitivityChange = async (value: string) => {
+    const sensitivity = value as DetectionSensitivity;
+    setDetectionSensitivity(sensitivity);
+    await StorageService.updateSettings({ detectionSensitivity: sensitivity });
+    await detectionService.reloadSettings();
+  };
+
+  const handleSustainedWakeChange = async (value: string) => {
+    const minutes = parseInt(value, 10);
+    setSustainedWakeMinutes(minutes);
+    await StorageService.updateSettings({ sustainedWakeMinutes: minutes });
+    await detectionService.reloadSettings();
+  };
+
+  const handleReviewThresholdChange = async (value: string) => {
+    const threshold = parseFloat(value);
+    setReviewConfidenceThreshold(threshold);
+    await StorageService.updateSettings({ reviewConfidenceThreshold: threshold });
+    await detectionService.reloadSettings();
+  };
+
+  const reviewThresholdOptions = [
+    { value: '0', label: 'Nunca' },
+    { value: '0.75', label: '< 75%' },
+    { value: '0.85', label: '< 85%' },
+  ];
+
+  const sustainedWakeOptions = [10, 20, 30, 45].map(minutes => ({
+    value: minutes.toString(),
+    label: `${minutes} min`,
+  }));
+
+  const sensitivityOptions = [
+    { value: 'low', label: 'Baja' },
+    { value: 'medium', label: 'Media' },
+    { value: 'high', label: 'Alta' },
+    ...(hasCustomProfile ? [{ value: 'custom', label: 'Propia' }] : []),
+  ];
+
+  const getBaselineDescription = (): string => {
+    if (motionBaseline && isBaselineReady(motionBaseline)) {
+      return `Reposo ${motionBaseline.noiseFloor.toFixed(3)} · Movimiento ${motionBaseline.movementLevel.toFixed(3)}`;
+    }
+    return `Aprendiendo de tus noches (${motionBaseline?.nightsObserved ?? 0}/${BASELINE_NIGHTS})`;
+  };
+
+  const handleResetBaseline = () => {
+    Alert.alert(
+      'Reiniciar Perfil de Movimiento',
+      'El perfil se volverá a aprender durante tus próximas noches registradas.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Reiniciar',
+          style: 'destructive',
+          onPress: async () => {
+            await detectionService.resetMotionBaseline();
+            setMotionBaseline(null);
+          }
+        }
+      ]
+    );
   };
 
   const handleExportData = async () => {
@@ -85,6 +170,8 @@ export default function Settings() {
           style: 'destructive',
           onPress: async () => {
             await StorageService.clearAllData();
+            await detectionService.resetMotionBaseline();
+            setMotionBaseline(null);
             Alert.alert('Éxito', 'Todos los datos de sueño han sido eliminados.');
           }
         }
@@ -99,21 +186,93 @@ export default function Settings() {
         {
           id: 'auto-detection',
           title: 'Detección Automática',
-          description: 'Rastrea automáticamente el sueño basado en la inactividad del teléfono',
+          description: autoDetectionEnabled
+            ? TRACKING_STATE_LABELS[trackingStatus.state]
+            : 'Rastrea automáticamente el sueño basado en la inactividad del teléfono',
           type: 'toggle' as const,
           icon: <Moon size={24} color="#4fd1c7" />,
           value: autoDetectionEnabled,
           onToggle: handleAutoDetectionToggle,
         },
+        {
+          id: 'sleep-schedule',
+          title: 'Horario de Sueño',
+          description: describeSleepSchedule(sleepSchedule),
+          type: 'navigation' as const,
+          icon: <CalendarClock size={24} color="#4fd1c7" />,
+          onPress: () => router.push('/sleep-schedule'),
+        },
+        {
+          id: 'jet-lag',
+          title: 'Planificador de Jet Lag',
+          description: 'Adapta tu sueño antes y después de un viaje con cambio de hora',
+          type: 'navigation' as const,
+          icon: <Plane size={24} color="#4fd1c7" />,
+          onPress: () => router.push('/jet-lag'),
+        },
         {
           id: 'battery-optimization',
           title: 'Optimización de Batería',
-          description: 'Reduce el uso de batería durante el seguimiento del sueño',
+          description: 'Usa el sensor con menos frecuencia mientras estás despierto o quieto',
           type: 'toggle' as const,
           icon: <Smartphone size={24} color="#4fd1c7" />,
           value: batteryOptimized,
           onToggle: handleBatteryOptimizationToggle,
         },
+        {
+          id: 'sensitivity',
+          title: 'Sensibilidad de Detección',
+          description: 'Qué tan rápido se detecta que te has dormido',
+          type: 'choice' as const,
+          icon: <Gauge size={24} color="#4fd1c7" />,
+          options: sensitivityOptions,
+          selected: detectionSensitivity,
+          onSelect: handleSensitivityChange,
+        },
+        {
+          id: 'sustained-wake',
+          title: 'Tiempo para Despertar',
+          description: 'Los despertares más cortos se registran como interrupciones',
+          type: 'choice' as const,
+          icon: <Timer size={24} color="#4fd1c7" />,
+          options: sustainedWakeOptions,
+          selected: sustainedWakeMinutes.toString(),
+          onSelect: handleSustainedWakeChange,
+        },
+        {
+          id: 'review-threshold',
+          title: 'Revisar Detecciones',
+          description: 'Las sesiones automáticas con menor confianza esperan tu confirmación',
+          type: 'choice' as const,
+          icon: <ClipboardCheck size={24} color="#4fd1c7" />,
+          options: reviewThresholdOptions,
+          selected: reviewConfidenceThreshold.toString(),
+          onSelect: handleReviewThresholdChange,
+        },
+        {
+          id: 'calibration',
+          title: 'Calibrar Detección',
+          description: 'Mide el movimiento de tu teléfono en reposo y en la mano',
+          type: 'navigation' as const,
+          icon: <Crosshair size={24} color="#4fd1c7" />,
+          onPress: () => router.push('/calibration'),
+        },
+        {
+          id: 'motion-baseline',
+          title: 'Perfil de Movimiento',
+          description: getBaselineDescription(),
+          type: 'action' as const,
+          icon: <Activity size={24} color="#4fd1c7" />,
+          onPress: handleResetBaseline,
+        },
+        {
+          id: 'detection-log',
+          title: 'Registro de Detección',
+          description: 'Revisa por qué se detectó o no tu sueño cada noche',
+          type: 'navigation' as const,
+          icon: <FileSearch size={24} color="#4fd1c7" />,
+          onPress: () => router.push('/detection-log'),
+        },
       ],
     },
     {
@@ -122,7 +281,7 @@ export default function Settings() {
         {
           id: 'notifications',
           title: 'Recordatorios de Sueño',
-          description: 'Recibe notificaciones sobre horarios de dormir y despertar',
+          description: 'Te avisa cuando se acerca la hora de dormir de tu horario',
           type: 'toggle' as const,
           icon: <Bell size={24} color="#4fd1c7" />,
           value: notificationsEnabled,
@@ -183,7 +342,7 @@ export default function Settings() {
       key={item.id}
       style={styles.settingItem}
       onPress={item.onPress}
-      disabled={item.type === 'toggle'}
+      disabled={item.type === 'toggle' || item.type === 'choice'}
     >
       <View style={styles.settingContent}>
         <View style={styles.settingIcon}>
@@ -207,6 +366,27 @@ export default function Settings() {
           )}
         </View>
       </View>
+      {item.type === 'choice' && (
+        <View style={styles.choiceSelector}>
+          {item.options?.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.choiceButton,
+                item.selected === option.value && styles.choiceButtonActive
+              ]}
+              onPress={() => item.onSelect?.(option.value)}
+            >
+              <Text style={[
+                styles.choiceButtonText,
+                item.selected === option.value && styles.choiceButtonTextActive
+              ]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
     </TouchableOpacity>
   );
 
@@ -317,6 +497,31 @@ const styles = StyleSheet.create({
   settingAction: {
     marginLeft: 16,
   },
+  choiceSelector: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 4,
+    marginHorizontal: 20,
+    marginBottom: 20,
+  },
+  choiceButton: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  choiceButtonActive: {
+    backgroundColor: '#4fd1c7',
+  },
+  choiceButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#a0aec0',
+  },
+  choiceButtonTextActive: {
+    color: '#1a365d',
+  },
   appInfo: {
     paddingHorizontal: 24,
     paddingBottom: 40,
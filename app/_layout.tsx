@@ -1,15 +1,17 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
 import * as SplashScreen from 'expo-splash-screen';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
+import { StorageService } from '@/services/storage';
 
 // Prevent splash screen from auto-hiding
 SplashScreen.preventAutoHideAsync();
 
 export default function RootLayout() {
   useFrameworkReady();
+  const [storageReady, setStorageReady] = useState(false);
   
   const [fontsLoaded, fontError] = useFonts({
     'Inter-Regular': Inter_400Regular,
@@ -17,13 +19,18 @@ export default function RootLayout() {
     'Inter-Bold': Inter_700Bold,
   });
 
+  // Screens read storage as soon as they mount, so migrate first
   useEffect(() => {
-    if (fontsLoaded || fontError) {
+    StorageService.migrate().finally(() => setStorageReady(true));
+  }, []);
+
+  useEffect(() => {
+    if ((fontsLoaded || fontError) && storageReady) {
       SplashScreen.hideAsync();
     }
-  }, [fontsLoaded, fontError]);
+  }, [fontsLoaded, fontError, storageReady]);
 
-  if (!fontsLoaded && !fontError) {
+  if ((!fontsLoaded && !fontError) || !storageReady) {
     return null;
   }
 
@@ -31,6 +38,12 @@ export default function RootLayout() {
     <>
       <Stack screenOptions={{ headerShown: false }}>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="calibration" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="session-times" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="detection-log" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="review" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="sleep-schedule" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="jet-lag" options={{ presentation: 'modal' }} />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="auto" />
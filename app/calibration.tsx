@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router } from 'expo-router';
+import { BedDouble, Hand, CircleCheck as CheckCircle, X } from 'lucide-react-native';
+import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
+import { DetectionThresholds } from '@/types/sleep';
+import detectionService from '@/services/sleepDetection';
+import { StorageService } from '@/services/storage';
+import { buildCalibratedThresholds } from '@/services/detectionProfiles';
+
+type CalibrationStep = 'rest' | 'hand' | 'result';
+
+const MEASUREMENT_DURATION = 15 * 1000; // 15 seconds per position
+
+export default function Calibration() {
+  const [step, setStep] = useState<CalibrationStep>('rest');
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [restLevel, setRestLevel] = useState<number | null>(null);
+  const [thresholds, setThresholds] = useState<DetectionThresholds | null>(null);
+
+  const [fontsLoaded] = useFonts({
+    'Inter-Regular': Inter_400Regular,
+    'Inter-SemiBold': Inter_600SemiBold,
+    'Inter-Bold': Inter_700Bold,
+  });
+
+  const handleMeasure = async () => {
+    setIsMeasuring(true);
+    try {
+      const level = await detectionService.measureMotionLevel(MEASUREMENT_DURATION);
+
+      if (step === 'rest') {
+        setRestLevel(level);
+        setStep('hand');
+      } else if (step === 'hand' && restLevel !== null) {
+        setThresholds(buildCalibratedThresholds({ restLevel, handLevel: level }));
+        setStep('result');
+      }
+    } catch (error) {
+      console.error('Calibration measurement failed:', error);
+      Alert.alert(
+        'Error de Calibración',
+        'No se pudo medir el movimiento. Asegúrate de que el teléfono esté quieto en la mesita y luego en tu mano, e intenta de nuevo.'
+      );
+      setStep('rest');
+      setRestLevel(null);
+    } finally {
+      setIsMeasuring(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!thresholds) return;
+
+    await StorageService.updateSettings({
+      detectionSensitivity: 'custom',
+      customThresholds: thresholds,
+    });
+    await detectionService.reloadSettings();
+    router.back();
+  };
+
+  if (!fontsLoaded) {
+    return null;
+  }
+
+  return (
+    <LinearGradient
+      colors={['#1a365d', '#2d3748']}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <Text style={styles.title}>Calibración</Text>
+        <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+          <X size={24} color="#a0aec0" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        {step === 'rest' && (
+          <>
+            <BedDouble size={48} color="#4fd1c7" />
+            <Text style={styles.stepTitle}>Paso 1 de 2: En reposo</Text>
+            <Text style={styles.stepDescription}>
+              Coloca el teléfono sobre tu mesita de noche, como lo dejas al dormir, y no lo toques durante 15 segundos.
+            </Text>
+          </>
+        )}
+
+        {step === 'hand' && (
+          <>
+            <Hand size={48} color="#4fd1c7" />
+            <Text style={styles.stepTitle}>Paso 2 de 2: En la mano</Text>
+            <Text style={styles.stepDescription}>
+              Sostén el teléfono en tu mano como si lo estuvieras usando durante 15 segundos.
+            </Text>
+          </>
+        )}
+
+        {step === 'result' && thresholds && (
+          <>
+            <CheckCircle size={48} color="#48bb78" />
+            <Text style={styles.stepTitle}>Calibración Completa</Text>
+            <Text style={styles.stepDescription}>
+              Umbral de movimiento personalizado: {thresholds.motionThreshold.toFixed(3)}
+            </Text>
+          </>
+        )}
+
+        {step !== 'result' ? (
+          <TouchableOpacity
+            style={[styles.primaryButton, isMeasuring && styles.primaryButtonDisabled]}
+            onPress={handleMeasure}
+            disabled={isMeasuring}
+          >
+            {isMeasuring ? (
+              <ActivityIndicator color="#1a365d" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Comenzar Medición</Text>
+            )}
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.primaryButton} onPress={handleSave}>
+            <Text style={styles.primaryButtonText}>Guardar Perfil</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingHorizontal: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  title: {
+    fontSize: 32,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 20,
+    padding: 32,
+    alignItems: 'center',
+  },
+  stepTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+    marginTop: 16,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  stepDescription: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#e2e8f0',
+    lineHeight: 20,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#4fd1c7',
+    paddingHorizontal: 32,
+    paddingVertical: 16,
+    borderRadius: 25,
+    marginTop: 32,
+    minWidth: 220,
+    alignItems: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.7,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1a365d',
+  },
+});
@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, ScrollView } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router, useLocalSearchParams } from 'expo-router';
+import { X } from 'lucide-react-native';
+import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
+import { DetectionLogEntry } from '@/types/sleep';
+import { StorageService } from '@/services/storage';
+import detectionService from '@/services/sleepDetection';
+import { DETECTION_ACTION_LABELS, isThresholdMet, summarizeNightLog } from '@/services/detectionLog';
+
+const formatTime = (date: Date): string => {
+  return date.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' });
+};
+
+const formatPercent = (value: number): string => `${Math.round(value * 100)}%`;
+
+const formatNight = (night: string): string => {
+  const [year, month, day] = night.split('-').map(part => parseInt(part, 10));
+  return new Date(year, month - 1, day).toLocaleDateString('es-ES', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+export default function DetectionLog() {
+  const params = useLocalSearchParams<{ night?: string }>();
+  const [nights, setNights] = useState<string[]>([]);
+  const [selectedNight, setSelectedNight] = useState<string | null>(params.night ?? null);
+  const [entries, setEntries] = useState<DetectionLogEntry[]>([]);
+
+  const [fontsLoaded] = useFonts({
+    'Inter-Regular': Inter_400Regular,
+    'Inter-SemiBold': Inter_600SemiBold,
+    'Inter-Bold': Inter_700Bold,
+  });
+
+  useEffect(() => {
+    loadNights();
+  }, []);
+
+  useEffect(() => {
+    if (selectedNight) {
+      loadEntries(selectedNight);
+    }
+  }, [selectedNight]);
+
+  const loadNights = async () => {
+    const loggedNights = await StorageService.getDetectionLogNights();
+    setNights(loggedNights);
+    // A night passed in stays selected
+    setSelectedNight(current => current ?? loggedNights[0] ?? null);
+  };
+
+  const loadEntries = async (night: string) => {
+    setEntries(await StorageService.getDetectionLog(night));
+  };
+
+  const summary = summarizeNightLog(entries);
+  // Entries from providers that are no longer registered fall back to their id
+  const signalLabels = detectionService.getSignalLabels();
+
+  const renderSummary = () => {
+    if (summary.passes === 0) {
+      return 'No hay registros de detección para esta noche. El seguimiento no estaba activo.';
+    }
+    if (summary.sessionOpenedAt) {
+      return `Se detectó el sueño a las ${formatTime(summary.sessionOpenedAt)}.`;
+    }
+    if (summary.peak) {
+      return `No se detectó sueño. La probabilidad máxima fue ${formatPercent(summary.peak.probability)} a las ${formatTime(summary.peak.at)}, y se necesitaba superar ${formatPercent(summary.peak.threshold)}.`;
+    }
+    return 'No se detectó sueño.';
+  };
+
+  const renderEntry = ({ item }: { item: DetectionLogEntry }) => (
+    <View style={[styles.entry, item.action !== 'none' && styles.entryHighlighted]}>
+      <View style={styles.entryHeader}>
+        <Text style={styles.entryTime}>{formatTime(item.at)}</Text>
+        <Text style={[styles.entryProbability, isThresholdMet(item) && styles.entryProbabilityMet]}>
+          {formatPercent(item.probability)} {item.inSession ? '<' : '>'} {formatPercent(item.threshold)}
+        </Text>
+        <Text style={styles.entryAction}>{DETECTION_ACTION_LABELS[item.action]}</Text>
+      </View>
+      <Text style={styles.entryFactors}>
+        {Object.entries(item.signals)
+          .map(([signal, value]) => `${signalLabels[signal] ?? signal} ${Math.round(value * 100)}`)
+          .join(' · ')}
+      </Text>
+      <Text style={styles.entryFactors}>
+        Inactivo {Math.round(item.inactivity / (1000 * 60))} min{item.napWindow && !item.inSession ? ' · reglas de siesta' : ''}
+      </Text>
+    </View>
+  );
+
+  if (!fontsLoaded) {
+    return null;
+  }
+
+  return (
+    <LinearGradient
+      colors={['#1a365d', '#2d3748']}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <Text style={styles.title}>¿Por Qué?</Text>
+        <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+          <X size={24} color="#a0aec0" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.nightSelector}
+        contentContainerStyle={styles.nightSelectorContent}
+      >
+        {nights.map(night => (
+          <TouchableOpacity
+            key={night}
+            style={[styles.nightButton, selectedNight === night && styles.nightButtonActive]}
+            onPress={() => setSelectedNight(night)}
+          >
+            <Text style={[styles.nightButtonText, selectedNight === night && styles.nightButtonTextActive]}>
+              {formatNight(night)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <View style={styles.summaryCard}>
+        <Text style={styles.summaryText}>{renderSummary()}</Text>
+      </View>
+
+      <FlatList
+        data={entries}
+        renderItem={renderEntry}
+        keyExtractor={(item) => item.at.getTime().toString()}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={styles.listContent}
+      />
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingHorizontal: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 32,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  nightSelector: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  nightSelectorContent: {
+    gap: 8,
+  },
+  nightButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  nightButtonActive: {
+    backgroundColor: '#4fd1c7',
+  },
+  nightButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#a0aec0',
+  },
+  nightButtonTextActive: {
+    color: '#1a365d',
+  },
+  summaryCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  summaryText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#e2e8f0',
+    lineHeight: 20,
+  },
+  listContent: {
+    paddingBottom: 40,
+  },
+  entry: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  entryHighlighted: {
+    backgroundColor: 'rgba(79, 209, 199, 0.1)',
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  entryTime: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+  },
+  entryProbability: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#a0aec0',
+  },
+  entryProbabilityMet: {
+    color: '#4fd1c7',
+  },
+  entryAction: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#e2e8f0',
+  },
+  entryFactors: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#718096',
+  },
+});
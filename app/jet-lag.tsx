@@ -0,0 +1,483 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, Switch, Alert } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router } from 'expo-router';
+import { Minus, Plus, X, Sun, MoonStar } from 'lucide-react-native';
+import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
+import { JetLagDayProgress, JetLagTrip } from '@/types/sleep';
+import { StorageService } from '@/services/storage';
+import {
+  JET_LAG_PHASE_LABELS,
+  buildJetLagPlan,
+  getJetLagPlanRange,
+  getRequiredShift,
+  getTimeZoneDifference,
+  trackJetLagPlan,
+} from '@/services/jetLag';
+import { DEFAULT_SLEEP_SCHEDULE, formatMinutesOfDay, getScheduleDay, toScheduleDate } from '@/services/sleepSchedule';
+import { getDeviceTimeZone, isValidTimeZone } from '@/services/timeZones';
+
+const COMMON_TIME_ZONES = [
+  { timeZone: 'America/Los_Angeles', label: 'Los Ángeles' },
+  { timeZone: 'America/New_York', label: 'Nueva York' },
+  { timeZone: 'America/Mexico_City', label: 'Ciudad de México' },
+  { timeZone: 'America/Bogota', label: 'Bogotá' },
+  { timeZone: 'America/Argentina/Buenos_Aires', label: 'Buenos Aires' },
+  { timeZone: 'Europe/London', label: 'Londres' },
+  { timeZone: 'Europe/Madrid', label: 'Madrid' },
+  { timeZone: 'Asia/Dubai', label: 'Dubái' },
+  { timeZone: 'Asia/Tokyo', label: 'Tokio' },
+  { timeZone: 'Australia/Sydney', label: 'Sídney' },
+];
+
+const MIN_TRIP_DAYS = 1;
+
+const addDays = (date: Date, days: number): Date => {
+  const shifted = new Date(date);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted;
+};
+
+const formatDay = (dayKey: string): string => {
+  const [year, month, day] = dayKey.split('-').map(part => parseInt(part, 10));
+  return new Date(year, month - 1, day).toLocaleDateString('es-ES', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+const formatHours = (minutes: number): string => {
+  const hours = Math.abs(minutes) / 60;
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(1)}h`;
+};
+
+export default function JetLagPlanner() {
+  const [trip, setTrip] = useState<JetLagTrip | null>(null);
+  const [progress, setProgress] = useState<JetLagDayProgress[]>([]);
+  const [destination, setDestination] = useState('');
+  const [departure, setDeparture] = useState(() => addDays(new Date(), 7));
+  const [hasReturn, setHasReturn] = useState(false);
+  const [returnDate, setReturnDate] = useState(() => addDays(new Date(), 14));
+
+  const [fontsLoaded] = useFonts({
+    'Inter-Regular': Inter_400Regular,
+    'Inter-SemiBold': Inter_600SemiBold,
+    'Inter-Bold': Inter_700Bold,
+  });
+
+  useEffect(() => {
+    loadTrip();
+  }, []);
+
+  const loadTrip = async () => {
+    const storedTrip = await StorageService.getJetLagTrip();
+    setTrip(storedTrip);
+    if (storedTrip) {
+      const plan = buildJetLagPlan(storedTrip);
+      const range = getJetLagPlanRange(plan);
+      const sessions = range ? await StorageService.getSleepSessionsInRange(range.start, range.end) : [];
+      setProgress(trackJetLagPlan(plan, sessions));
+    }
+  };
+
+  const adjustDeparture = (days: number) => {
+    const next = addDays(departure, days);
+    if (toScheduleDate(next) < toScheduleDate(new Date())) return;
+    setDeparture(next);
+    if (toScheduleDate(returnDate) <= toScheduleDate(next)) {
+      setReturnDate(addDays(next, MIN_TRIP_DAYS));
+    }
+  };
+
+  const adjustReturn = (days: number) => {
+    const next = addDays(returnDate, days);
+    if (toScheduleDate(next) <= toScheduleDate(departure)) return;
+    setReturnDate(next);
+  };
+
+  const handleCreatePlan = async () => {
+    const destinationTimeZone = destination.trim();
+    if (!isValidTimeZone(destinationTimeZone)) {
+      Alert.alert('Zona Horaria Inválida', 'Elige un destino de la lista o escribe una zona como Asia/Tokyo.');
+      return;
+    }
+
+    const settings = await StorageService.getSettings();
+    const schedule = settings.sleepSchedule ?? DEFAULT_SLEEP_SCHEDULE;
+    const newTrip: JetLagTrip = {
+      id: Date.now().toString(),
+      originTimeZone: getDeviceTimeZone() ?? 'UTC',
+      destinationTimeZone,
+      departureDate: toScheduleDate(departure),
+      returnDate: hasReturn ? toScheduleDate(returnDate) : undefined,
+      usualSleep: getScheduleDay(schedule, departure).sleep,
+      createdAt: new Date(),
+    };
+
+    if (!getRequiredShift(newTrip)) {
+      Alert.alert('Sin Diferencia Horaria', 'El destino tiene la misma hora que tu zona actual, no hace falta un plan.');
+      return;
+    }
+
+    await StorageService.saveJetLagTrip(newTrip);
+    loadTrip();
+  };
+
+  const handleDeleteTrip = () => {
+    Alert.alert(
+      'Eliminar Viaje',
+      '¿Quieres eliminar este viaje y su plan?',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: async () => {
+            await StorageService.saveJetLagTrip(null);
+            setTrip(null);
+            setProgress([]);
+          },
+        },
+      ]
+    );
+  };
+
+  const renderDateStepper = (label: string, date: Date, onAdjust: (days: number) => void) => (
+    <View style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity style={styles.stepButton} onPress={() => onAdjust(-1)}>
+          <Minus size={16} color="#ffffff" />
+        </TouchableOpacity>
+        <Text style={styles.stepValue}>{formatDay(toScheduleDate(date))}</Text>
+        <TouchableOpacity style={styles.stepButton} onPress={() => onAdjust(1)}>
+          <Plus size={16} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderTripForm = () => (
+    <>
+      <Text style={styles.subtitle}>
+        Prepara tu cuerpo para el cambio de hora: el plan mueve tu horario de sueño poco a poco y te dice cuándo buscar o evitar la luz.
+      </Text>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Destino</Text>
+        <View style={styles.chips}>
+          {COMMON_TIME_ZONES.map(({ timeZone, label }) => (
+            <TouchableOpacity
+              key={timeZone}
+              style={[styles.chip, destination === timeZone && styles.chipActive]}
+              onPress={() => setDestination(timeZone)}
+            >
+              <Text style={[styles.chipText, destination === timeZone && styles.chipTextActive]}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TextInput
+          style={styles.input}
+          value={destination}
+          onChangeText={setDestination}
+          placeholder="Otra zona, p. ej. Asia/Singapore"
+          placeholderTextColor="#718096"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+
+      <View style={styles.card}>
+        {renderDateStepper('Salida', departure, adjustDeparture)}
+        <View style={styles.row}>
+          <Text style={styles.rowLabel}>Fecha de regreso</Text>
+          <Switch
+            value={hasReturn}
+            onValueChange={setHasReturn}
+            trackColor={{ false: '#4a5568', true: '#4fd1c7' }}
+            thumbColor="#ffffff"
+          />
+        </View>
+        {hasReturn && renderDateStepper('Regreso', returnDate, adjustReturn)}
+      </View>
+
+      <TouchableOpacity style={styles.primaryButton} onPress={handleCreatePlan}>
+        <Text style={styles.primaryButtonText}>Crear Plan</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderPlan = (currentTrip: JetLagTrip) => {
+    const difference = getTimeZoneDifference(currentTrip);
+    const shift = getRequiredShift(currentTrip);
+
+    return (
+      <>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{currentTrip.destinationTimeZone}</Text>
+          <Text style={styles.cardText}>
+            {difference > 0 ? `${formatHours(difference)} por delante` : `${formatHours(difference)} por detrás`} de {currentTrip.originTimeZone}.
+            {shift?.direction === 'advance'
+              ? ' Adelantarás tu horario: acuéstate y levántate antes cada día.'
+              : ' Retrasarás tu horario: acuéstate y levántate más tarde cada día.'}
+          </Text>
+        </View>
+
+        {progress.map(({ day, deviation }) => (
+          <View key={day.date} style={[styles.dayCard, day.phase === 'adapted' && styles.dayCardAdapted]}>
+            <View style={styles.dayHeader}>
+              <Text style={styles.dayDate}>{formatDay(day.date)}</Text>
+              <Text style={styles.dayPhase}>{JET_LAG_PHASE_LABELS[day.phase]}</Text>
+            </View>
+            <Text style={styles.dayTimes}>
+              Dormir {formatMinutesOfDay(day.sleep.start)} · Despertar {formatMinutesOfDay(day.sleep.end)}
+            </Text>
+            <Text style={styles.dayZone}>Hora de {day.timeZone}</Text>
+            {day.seekLight && (
+              <View style={styles.lightRow}>
+                <Sun size={14} color="#ecc94b" />
+                <Text style={styles.lightText}>
+                  Busca luz de {formatMinutesOfDay(day.seekLight.start)} a {formatMinutesOfDay(day.seekLight.end)}
+                </Text>
+              </View>
+            )}
+            {day.avoidLight && (
+              <View style={styles.lightRow}>
+                <MoonStar size={14} color="#9f7aea" />
+                <Text style={styles.lightText}>
+                  Evita la luz de {formatMinutesOfDay(day.avoidLight.start)} a {formatMinutesOfDay(day.avoidLight.end)}
+                </Text>
+              </View>
+            )}
+            {deviation !== null && (
+              <Text style={[styles.dayActual, Math.abs(deviation) > 60 && styles.dayActualOff]}>
+                {deviation === 0
+                  ? 'Te dormiste a la hora del plan'
+                  : `Te dormiste ${Math.abs(deviation)} min ${deviation > 0 ? 'más tarde' : 'antes'} de lo planeado`}
+              </Text>
+            )}
+          </View>
+        ))}
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleDeleteTrip}>
+          <Text style={styles.secondaryButtonText}>Eliminar Viaje</Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  if (!fontsLoaded) {
+    return null;
+  }
+
+  return (
+    <LinearGradient
+      colors={['#1a365d', '#2d3748']}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <Text style={styles.title}>Jet Lag</Text>
+        <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+          <X size={24} color="#a0aec0" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={styles.content}>
+        {trip ? renderPlan(trip) : renderTripForm()}
+      </ScrollView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingHorizontal: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 32,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  content: {
+    paddingBottom: 40,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#a0aec0',
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+    marginBottom: 8,
+  },
+  cardText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#e2e8f0',
+    lineHeight: 20,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipActive: {
+    backgroundColor: '#4fd1c7',
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#a0aec0',
+  },
+  chipTextActive: {
+    color: '#1a365d',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  rowLabel: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 16,
+    padding: 6,
+  },
+  stepValue: {
+    fontSize: 14,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+    minWidth: 90,
+    textAlign: 'center',
+  },
+  dayCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+  },
+  dayCardAdapted: {
+    borderWidth: 1,
+    borderColor: '#48bb78',
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  dayDate: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+  },
+  dayPhase: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    color: '#4fd1c7',
+  },
+  dayTimes: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#e2e8f0',
+  },
+  dayZone: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#718096',
+    marginBottom: 6,
+  },
+  lightRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  lightText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#e2e8f0',
+    marginLeft: 6,
+  },
+  dayActual: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#48bb78',
+    marginTop: 8,
+  },
+  dayActualOff: {
+    color: '#ed8936',
+  },
+  primaryButton: {
+    backgroundColor: '#4fd1c7',
+    paddingVertical: 16,
+    borderRadius: 25,
+    marginTop: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1a365d',
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    borderRadius: 25,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    marginTop: 8,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#f56565',
+  },
+});
@@ -0,0 +1,223 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router, useFocusEffect } from 'expo-router';
+import { X, Check, Clock, Trash2, Coffee } from 'lucide-react-native';
+import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
+import { SleepSession } from '@/types/sleep';
+import { StorageService } from '@/services/storage';
+import { formatSessionDate, formatSessionTime } from '@/services/timeZones';
+import { SessionValidationError } from '@/services/sessionValidation';
+import { alertSessionIssues } from '@/services/sessionAlerts';
+
+const formatDuration = (milliseconds: number): string => {
+  const hours = Math.floor(milliseconds / (1000 * 60 * 60));
+  const minutes = Math.floor((milliseconds % (1000 * 60 * 60)) / (1000 * 60));
+  return `${hours}h ${minutes}m`;
+};
+
+export default function Review() {
+  const [pendingSessions, setPendingSessions] = useState<SleepSession[]>([]);
+
+  const [fontsLoaded] = useFonts({
+    'Inter-Regular': Inter_400Regular,
+    'Inter-SemiBold': Inter_600SemiBold,
+    'Inter-Bold': Inter_700Bold,
+  });
+
+  // Reload on focus: adjusting times happens in the session times screen
+  useFocusEffect(
+    useCallback(() => {
+      loadPendingSessions();
+    }, [])
+  );
+
+  const loadPendingSessions = async () => {
+    const sessions = await StorageService.getPendingReviewSessions();
+    setPendingSessions(sessions.sort((a, b) => b.bedtime.getTime() - a.bedtime.getTime()));
+  };
+
+  const handleConfirm = async (session: SleepSession) => {
+    try {
+      await StorageService.confirmSleepSession(session.id);
+    } catch (error) {
+      if (!(error instanceof SessionValidationError)) throw error;
+      alertSessionIssues(error);
+    }
+    loadPendingSessions();
+  };
+
+  const handleAdjust = (session: SleepSession) => {
+    router.push({ pathname: '/session-times', params: { sessionId: session.id } });
+  };
+
+  const handleReject = async (session: SleepSession) => {
+    await StorageService.rejectSleepSession(session.id);
+    loadPendingSessions();
+  };
+
+  const renderSession = ({ item }: { item: SleepSession }) => (
+    <View style={styles.sessionCard}>
+      <View style={styles.sessionHeader}>
+        <Text style={styles.sessionDate}>
+          {formatSessionDate(item, item.bedtime, { weekday: 'long', month: 'short', day: 'numeric' })}
+        </Text>
+        {item.kind === 'nap' && <Coffee size={16} color="#9f7aea" />}
+      </View>
+      <Text style={styles.sessionTime}>
+        {formatSessionTime(item, item.bedtime)} - {item.wakeTime ? formatSessionTime(item, item.wakeTime) : ''} · {formatDuration(item.duration)}
+      </Text>
+      <Text style={styles.sessionConfidence}>
+        Confianza de detección: {Math.round(item.confidence * 100)}%
+      </Text>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={[styles.actionButton, styles.confirmButton]} onPress={() => handleConfirm(item)}>
+          <Check size={16} color="#1a365d" />
+          <Text style={styles.confirmText}>Confirmar</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => handleAdjust(item)}>
+          <Clock size={16} color="#4fd1c7" />
+          <Text style={styles.actionText}>Ajustar</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => handleReject(item)}>
+          <Trash2 size={16} color="#f56565" />
+          <Text style={[styles.actionText, styles.rejectText]}>Rechazar</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  if (!fontsLoaded) {
+    return null;
+  }
+
+  return (
+    <LinearGradient
+      colors={['#1a365d', '#2d3748']}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <Text style={styles.title}>Por Revisar</Text>
+        <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+          <X size={24} color="#a0aec0" />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.subtitle}>
+        Estas sesiones se detectaron con poca confianza y no se incluyen en tus estadísticas hasta que las confirmes.
+      </Text>
+
+      <FlatList
+        data={pendingSessions}
+        renderItem={renderSession}
+        keyExtractor={(item) => item.id}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No hay sesiones pendientes de revisión.</Text>
+        }
+      />
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingHorizontal: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 32,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#a0aec0',
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  listContent: {
+    paddingBottom: 40,
+  },
+  sessionCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  sessionDate: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+  },
+  sessionTime: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#e2e8f0',
+    marginBottom: 4,
+  },
+  sessionConfidence: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#ed8936',
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 16,
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    gap: 6,
+  },
+  confirmButton: {
+    backgroundColor: '#4fd1c7',
+    borderColor: '#4fd1c7',
+  },
+  confirmText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1a365d',
+  },
+  actionText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#4fd1c7',
+  },
+  rejectText: {
+    color: '#f56565',
+  },
+  emptyText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    color: '#a0aec0',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Minus, Plus, X } from 'lucide-react-native';
+import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
+import { SleepSession } from '@/types/sleep';
+import { StorageService } from '@/services/storage';
+import { formatSessionTime } from '@/services/timeZones';
+import { saveSessionWithAlerts } from '@/services/sessionAlerts';
+import { rescoreSession } from '@/services/actigraphy';
+
+type SpanField = 'bedtime' | 'wakeTime';
+type TimingField = 'inBedTime' | 'sleepOnset' | 'finalAwakening' | 'outOfBedTime';
+
+// The span is what duration and the analytics use; the timings only feed
+// the sleep efficiency
+const SPAN_FIELDS: { field: SpanField; label: string }[] = [
+  { field: 'bedtime', label: 'Inicio' },
+  { field: 'wakeTime', label: 'Fin' },
+];
+
+const TIMING_FIELDS: { field: TimingField; label: string }[] = [
+  { field: 'inBedTime', label: 'Me acosté' },
+  { field: 'sleepOnset', label: 'Me dormí' },
+  { field: 'finalAwakening', label: 'Me desperté' },
+  { field: 'outOfBedTime', label: 'Me levanté' },
+];
+
+const STEP_MINUTES = 5;
+
+export default function SessionTimes() {
+  const { sessionId } = useLocalSearchParams<{ sessionId: string }>();
+  const [session, setSession] = useState<SleepSession | null>(null);
+  const [times, setTimes] = useState<Record<SpanField | TimingField, Date> | null>(null);
+
+  const [fontsLoaded] = useFonts({
+    'Inter-Regular': Inter_400Regular,
+    'Inter-SemiBold': Inter_600SemiBold,
+    'Inter-Bold': Inter_700Bold,
+  });
+
+  useEffect(() => {
+    loadSession(sessionId);
+  }, [sessionId]);
+
+  const loadSession = async (id: string) => {
+    const found = await StorageService.getSleepSession(id);
+    if (!found || !found.wakeTime) return;
+
+    setSession(found);
+    setTimes({
+      bedtime: found.bedtime,
+      wakeTime: found.wakeTime,
+      inBedTime: found.inBedTime ?? found.bedtime,
+      sleepOnset: found.sleepOnset ?? found.bedtime,
+      finalAwakening: found.finalAwakening ?? found.wakeTime,
+      outOfBedTime: found.outOfBedTime ?? found.wakeTime,
+    });
+  };
+
+  const adjustTime = (field: SpanField | TimingField, minutes: number) => {
+    if (!times) return;
+    setTimes({
+      ...times,
+      [field]: new Date(times[field].getTime() + minutes * 60 * 1000),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!session || !times) return;
+
+    const ordered = TIMING_FIELDS.every((entry, index) =>
+      index === 0 || times[TIMING_FIELDS[index - 1].field].getTime() <= times[entry.field].getTime()
+    );
+    if (!ordered || times.wakeTime.getTime() <= times.bedtime.getTime()) {
+      Alert.alert(
+        'Horarios Inválidos',
+        'La sesión debe terminar después de empezar, y las horas ir en orden: acostarte, dormirte, despertarte y levantarte.'
+      );
+      return;
+    }
+
+    // Adjusting a session under review also confirms it. Overlaps it was
+    // already flagged with stay as they were; a moved span asks about new ones.
+    const edited: SleepSession = {
+      ...session,
+      ...times,
+      duration: times.wakeTime.getTime() - times.bedtime.getTime(),
+      reviewStatus: session.reviewStatus ? 'confirmed' : undefined,
+      updatedAt: new Date(),
+    };
+    // Re-score from the archived epochs so the hypnogram covers the new span
+    const actigraphy = session.hasActigraphy ? await StorageService.getSessionActigraphy(session.id) : null;
+    const saved = await saveSessionWithAlerts(actigraphy ? rescoreSession(edited, actigraphy) : edited);
+    if (saved) {
+      router.back();
+    }
+  };
+
+  const renderTimeRow = (field: SpanField | TimingField, label: string) => (
+    <View key={field} style={styles.timeRow}>
+      <Text style={styles.timeLabel}>{label}</Text>
+      <View style={styles.timeControls}>
+        <TouchableOpacity style={styles.stepButton} onPress={() => adjustTime(field, -STEP_MINUTES)}>
+          <Minus size={16} color="#ffffff" />
+        </TouchableOpacity>
+        <Text style={styles.timeValue}>{session && times ? formatSessionTime(session, times[field]) : ''}</Text>
+        <TouchableOpacity style={styles.stepButton} onPress={() => adjustTime(field, STEP_MINUTES)}>
+          <Plus size={16} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  if (!fontsLoaded) {
+    return null;
+  }
+
+  return (
+    <LinearGradient
+      colors={['#1a365d', '#2d3748']}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <Text style={styles.title}>Horarios de Sueño</Text>
+        <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+          <X size={24} color="#a0aec0" />
+        </TouchableOpacity>
+      </View>
+
+      {!times ? (
+        <Text style={styles.emptyText}>No se encontró una sesión de sueño completada.</Text>
+      ) : (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Sesión</Text>
+          {SPAN_FIELDS.map(({ field, label }) => renderTimeRow(field, label))}
+
+          <Text style={[styles.sectionTitle, styles.sectionSpacing]}>En la cama</Text>
+          {TIMING_FIELDS.map(({ field, label }) => renderTimeRow(field, label))}
+
+          <TouchableOpacity style={styles.primaryButton} onPress={handleSave}>
+            <Text style={styles.primaryButtonText}>Guardar Horarios</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingHorizontal: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  title: {
+    fontSize: 32,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    color: '#a0aec0',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 20,
+    padding: 24,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#a0aec0',
+  },
+  sectionSpacing: {
+    marginTop: 20,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  timeLabel: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+  },
+  timeControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 16,
+    padding: 6,
+  },
+  timeValue: {
+    fontSize: 18,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+    minWidth: 56,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#4fd1c7',
+    paddingVertical: 16,
+    borderRadius: 25,
+    marginTop: 24,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1a365d',
+  },
+});
@@ -0,0 +1,373 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Switch } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router } from 'expo-router';
+import { Minus, Plus, X } from 'lucide-react-native';
+import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
+import { SleepSchedule, SleepScheduleDay, SleepScheduleType, SleepWindow } from '@/types/sleep';
+import { StorageService } from '@/services/storage';
+import detectionService from '@/services/sleepDetection';
+import {
+  DEFAULT_SCHEDULE_DAY,
+  DEFAULT_SLEEP_SCHEDULE,
+  formatMinutesOfDay,
+  toScheduleDate,
+} from '@/services/sleepSchedule';
+
+const STEP_MINUTES = 15;
+const MINUTES_PER_DAY = 24 * 60;
+const MIN_CYCLE_DAYS = 2;
+const MAX_CYCLE_DAYS = 28;
+
+const SCHEDULE_TYPES: { type: SleepScheduleType; label: string }[] = [
+  { type: 'fixed', label: 'Fijo' },
+  { type: 'weekly', label: 'Por Día' },
+  { type: 'rotating', label: 'Turnos' },
+];
+
+const WEEKDAY_LABELS = ['D', 'L', 'M', 'X', 'J', 'V', 'S'];
+
+const getDays = (schedule: SleepSchedule): SleepScheduleDay[] =>
+  schedule.type === 'fixed' ? [schedule.day] : schedule.days;
+
+// Switching type keeps the first day's windows as the starting point
+const convertSchedule = (schedule: SleepSchedule, type: SleepScheduleType): SleepSchedule => {
+  const days = getDays(schedule);
+  const first = days[0] ?? DEFAULT_SCHEDULE_DAY;
+
+  switch (type) {
+    case 'fixed':
+      return { type, day: first };
+    case 'weekly':
+      return { type, days: Array.from({ length: 7 }, (_, index) => days[index] ?? first) };
+    case 'rotating':
+      return {
+        type,
+        startDate: toScheduleDate(new Date()),
+        days: days.length >= MIN_CYCLE_DAYS ? days.slice(0, MAX_CYCLE_DAYS) : [first, first],
+      };
+  }
+};
+
+export default function SleepScheduleEditor() {
+  const [schedule, setSchedule] = useState<SleepSchedule>(DEFAULT_SLEEP_SCHEDULE);
+  const [selectedDay, setSelectedDay] = useState(0);
+
+  const [fontsLoaded] = useFonts({
+    'Inter-Regular': Inter_400Regular,
+    'Inter-SemiBold': Inter_600SemiBold,
+    'Inter-Bold': Inter_700Bold,
+  });
+
+  useEffect(() => {
+    loadSchedule();
+  }, []);
+
+  const loadSchedule = async () => {
+    const settings = await StorageService.getSettings();
+    setSchedule(settings.sleepSchedule ?? DEFAULT_SLEEP_SCHEDULE);
+  };
+
+  const days = getDays(schedule);
+  const dayIndex = Math.min(selectedDay, days.length - 1);
+  const day = days[dayIndex];
+
+  const handleTypeChange = (type: SleepScheduleType) => {
+    if (type === schedule.type) return;
+    setSchedule(convertSchedule(schedule, type));
+    setSelectedDay(type === 'weekly' ? new Date().getDay() : 0);
+  };
+
+  const updateDay = (updated: SleepScheduleDay) => {
+    if (schedule.type === 'fixed') {
+      setSchedule({ ...schedule, day: updated });
+      return;
+    }
+    setSchedule({
+      ...schedule,
+      days: schedule.days.map((existing, index) => (index === dayIndex ? updated : existing)),
+    });
+  };
+
+  const adjustWindow = (field: 'sleep' | 'nap', edge: keyof SleepWindow, minutes: number) => {
+    const window = day[field];
+    if (!window) return;
+    updateDay({
+      ...day,
+      [field]: { ...window, [edge]: (window[edge] + minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY },
+    });
+  };
+
+  const toggleNap = (enabled: boolean) => {
+    updateDay({ ...day, nap: enabled ? DEFAULT_SCHEDULE_DAY.nap : null });
+  };
+
+  const adjustCycleLength = (delta: number) => {
+    if (schedule.type !== 'rotating') return;
+    const length = Math.max(MIN_CYCLE_DAYS, Math.min(MAX_CYCLE_DAYS, schedule.days.length + delta));
+    setSchedule({
+      ...schedule,
+      days: Array.from({ length }, (_, index) => schedule.days[index] ?? schedule.days[schedule.days.length - 1]),
+    });
+  };
+
+  const handleSave = async () => {
+    await StorageService.updateSettings({ sleepSchedule: schedule });
+    await detectionService.reloadSettings();
+    router.back();
+  };
+
+  const renderTimeRow = (label: string, field: 'sleep' | 'nap', edge: keyof SleepWindow) => {
+    const window = day[field];
+    if (!window) return null;
+
+    return (
+      <View style={styles.timeRow}>
+        <Text style={styles.timeLabel}>{label}</Text>
+        <View style={styles.timeControls}>
+          <TouchableOpacity style={styles.stepButton} onPress={() => adjustWindow(field, edge, -STEP_MINUTES)}>
+            <Minus size={16} color="#ffffff" />
+          </TouchableOpacity>
+          <Text style={styles.timeValue}>{formatMinutesOfDay(window[edge])}</Text>
+          <TouchableOpacity style={styles.stepButton} onPress={() => adjustWindow(field, edge, STEP_MINUTES)}>
+            <Plus size={16} color="#ffffff" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (!fontsLoaded) {
+    return null;
+  }
+
+  return (
+    <LinearGradient
+      colors={['#1a365d', '#2d3748']}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <Text style={styles.title}>Horario de Sueño</Text>
+        <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+          <X size={24} color="#a0aec0" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={styles.content}>
+        <Text style={styles.subtitle}>
+          La detección automática, los recordatorios y la consistencia usan este horario.
+        </Text>
+
+        <View style={styles.segmented}>
+          {SCHEDULE_TYPES.map(({ type, label }) => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.segment, schedule.type === type && styles.segmentActive]}
+              onPress={() => handleTypeChange(type)}
+            >
+              <Text style={[styles.segmentText, schedule.type === type && styles.segmentTextActive]}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {schedule.type === 'rotating' && (
+          <View style={styles.card}>
+            <View style={styles.timeRow}>
+              <Text style={styles.timeLabel}>Días del ciclo</Text>
+              <View style={styles.timeControls}>
+                <TouchableOpacity style={styles.stepButton} onPress={() => adjustCycleLength(-1)}>
+                  <Minus size={16} color="#ffffff" />
+                </TouchableOpacity>
+                <Text style={styles.timeValue}>{schedule.days.length}</Text>
+                <TouchableOpacity style={styles.stepButton} onPress={() => adjustCycleLength(1)}>
+                  <Plus size={16} color="#ffffff" />
+                </TouchableOpacity>
+              </View>
+            </View>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => setSchedule({ ...schedule, startDate: toScheduleDate(new Date()) })}
+            >
+              <Text style={styles.secondaryButtonText}>
+                {schedule.startDate === toScheduleDate(new Date()) ? 'El día 1 del ciclo es hoy' : 'Empezar el ciclo hoy'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {schedule.type !== 'fixed' && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dayTabs}>
+            {days.map((_, index) => (
+              <TouchableOpacity
+                key={index}
+                style={[styles.dayTab, index === dayIndex && styles.segmentActive]}
+                onPress={() => setSelectedDay(index)}
+              >
+                <Text style={[styles.segmentText, index === dayIndex && styles.segmentTextActive]}>
+                  {schedule.type === 'weekly' ? WEEKDAY_LABELS[index] : `${index + 1}`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Sueño principal</Text>
+          {renderTimeRow('Me acuesto', 'sleep', 'start')}
+          {renderTimeRow('Me levanto', 'sleep', 'end')}
+
+          <View style={[styles.timeRow, styles.napToggleRow]}>
+            <Text style={styles.cardTitle}>Siesta</Text>
+            <Switch
+              value={!!day.nap}
+              onValueChange={toggleNap}
+              trackColor={{ false: '#4a5568', true: '#4fd1c7' }}
+              thumbColor="#ffffff"
+            />
+          </View>
+          {renderTimeRow('Desde', 'nap', 'start')}
+          {renderTimeRow('Hasta', 'nap', 'end')}
+        </View>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={handleSave}>
+          <Text style={styles.primaryButtonText}>Guardar Horario</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingHorizontal: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 32,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  content: {
+    paddingBottom: 40,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#a0aec0',
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 20,
+    padding: 4,
+    marginBottom: 16,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  segmentActive: {
+    backgroundColor: '#4fd1c7',
+  },
+  segmentText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#a0aec0',
+  },
+  segmentTextActive: {
+    color: '#1a365d',
+  },
+  dayTabs: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  dayTab: {
+    minWidth: 40,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 20,
+    padding: 24,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+  },
+  napToggleRow: {
+    marginTop: 16,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  timeLabel: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+  },
+  timeControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 16,
+    padding: 6,
+  },
+  timeValue: {
+    fontSize: 18,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+    minWidth: 56,
+    textAlign: 'center',
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    borderRadius: 25,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    marginTop: 8,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#4fd1c7',
+  },
+  primaryButton: {
+    backgroundColor: '#4fd1c7',
+    paddingVertical: 16,
+    borderRadius: 25,
+    marginTop: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1a365d',
+  },
+});
@@ -0,0 +1,115 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useFonts, Inter_400Regular } from '@expo-google-fonts/inter';
+import { Hypnogram, SleepStage } from '@/types/sleep';
+
+interface HypnogramChartProps {
+  hypnogram: Hypnogram;
+  height?: number;
+}
+
+// Top to bottom, as hypnograms are conventionally drawn
+const STAGE_ORDER: SleepStage[] = ['awake', 'rem', 'light', 'deep'];
+
+const STAGE_COLORS: { [stage in SleepStage]: string } = {
+  awake: '#f56565',
+  rem: '#9f7aea',
+  light: '#4fd1c7',
+  deep: '#1a365d',
+};
+
+const STAGE_LABELS: { [stage in SleepStage]: string } = {
+  awake: 'Despierto',
+  rem: 'REM',
+  light: 'Ligero',
+  deep: 'Profundo',
+};
+
+export default function HypnogramChart({ hypnogram, height = 64 }: HypnogramChartProps) {
+  const [fontsLoaded] = useFonts({
+    'Inter-Regular': Inter_400Regular,
+  });
+
+  if (!fontsLoaded || hypnogram.stages.length === 0) {
+    return null;
+  }
+
+  // Merge consecutive epochs of the same stage into segments
+  const segments: { stage: SleepStage; length: number }[] = [];
+  hypnogram.stages.forEach(stage => {
+    const last = segments[segments.length - 1];
+    if (last && last.stage === stage) {
+      last.length += 1;
+    } else {
+      segments.push({ stage, length: 1 });
+    }
+  });
+
+  const laneHeight = height / STAGE_ORDER.length;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.chart, { height }]}>
+        {segments.map((segment, index) => (
+          <View key={index} style={{ flex: segment.length }}>
+            <View
+              style={[
+                styles.segment,
+                {
+                  height: laneHeight,
+                  marginTop: STAGE_ORDER.indexOf(segment.stage) * laneHeight,
+                  backgroundColor: STAGE_COLORS[segment.stage],
+                },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.legend}>
+        {STAGE_ORDER.map(stage => (
+          <View key={stage} style={styles.legendItem}>
+            <View style={[styles.legendColor, { backgroundColor: STAGE_COLORS[stage] }]} />
+            <Text style={styles.legendText}>{STAGE_LABELS[stage]}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  chart: {
+    flexDirection: 'row',
+    backgroundColor: '#edf2f7',
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  segment: {
+    width: '100%',
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendColor: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 4,
+  },
+  legendText: {
+    fontSize: 11,
+    fontFamily: 'Inter-Regular',
+    color: '#718096',
+  },
+});
@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { AlarmClock, Minus, Plus } from 'lucide-react-native';
+import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
+import { SmartAlarm } from '@/types/sleep';
+import { ALARM_WINDOW_OPTIONS, getAlarmWindowStart } from '@/services/smartAlarm';
+
+interface SmartAlarmCardProps {
+  alarm: SmartAlarm | null;
+  onSchedule: (hour: number, minute: number, windowMinutes: number) => void;
+  onCancel: () => void;
+  trackingActive: boolean; // the alarm only rings while tracking runs
+  defaultWakeMinutes?: number; // minutes after midnight, e.g. the scheduled wake time
+}
+
+const TIME_STEP_MINUTES = 15;
+
+const formatTime = (date: Date): string => {
+  return date.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' });
+};
+
+export default function SmartAlarmCard({
+  alarm,
+  onSchedule,
+  onCancel,
+  trackingActive,
+  defaultWakeMinutes = 7 * 60,
+}: SmartAlarmCardProps) {
+  const [minutesOfDay, setMinutesOfDay] = useState(defaultWakeMinutes);
+  const [windowMinutes, setWindowMinutes] = useState(30);
+
+  // The schedule loads after the first render
+  useEffect(() => {
+    setMinutesOfDay(defaultWakeMinutes);
+  }, [defaultWakeMinutes]);
+
+  const [fontsLoaded] = useFonts({
+    'Inter-Regular': Inter_400Regular,
+    'Inter-SemiBold': Inter_600SemiBold,
+    'Inter-Bold': Inter_700Bold,
+  });
+
+  if (!fontsLoaded) {
+    return null;
+  }
+
+  const adjustTime = (delta: number) => {
+    setMinutesOfDay((minutesOfDay + delta + 24 * 60) % (24 * 60));
+  };
+
+  const hour = Math.floor(minutesOfDay / 60);
+  const minute = minutesOfDay % 60;
+
+  if (alarm) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <AlarmClock size={20} color="#4fd1c7" />
+          <Text style={styles.title}>Alarma Inteligente</Text>
+        </View>
+        <Text style={styles.alarmTime}>{formatTime(alarm.latestWakeTime)}</Text>
+        <Text style={styles.description}>
+          Sonará entre {formatTime(getAlarmWindowStart(alarm))} y {formatTime(alarm.latestWakeTime)}, cuando estés en sueño ligero
+        </Text>
+        {!trackingActive && (
+          <Text style={styles.warning}>La detección está detenida: la alarma no sonará hasta que la reanudes</Text>
+        )}
+        <TouchableOpacity style={styles.secondaryButton} onPress={onCancel}>
+          <Text style={styles.secondaryButtonText}>Cancelar Alarma</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <AlarmClock size={20} color="#4fd1c7" />
+        <Text style={styles.title}>Alarma Inteligente</Text>
+      </View>
+
+      <View style={styles.timePicker}>
+        <TouchableOpacity style={styles.stepButton} onPress={() => adjustTime(-TIME_STEP_MINUTES)}>
+          <Minus size={20} color="#ffffff" />
+        </TouchableOpacity>
+        <Text style={styles.alarmTime}>
+          {hour.toString().padStart(2, '0')}:{minute.toString().padStart(2, '0')}
+        </Text>
+        <TouchableOpacity style={styles.stepButton} onPress={() => adjustTime(TIME_STEP_MINUTES)}>
+          <Plus size={20} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.description}>Ventana para despertar</Text>
+      <View style={styles.windowSelector}>
+        {ALARM_WINDOW_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.windowButton, windowMinutes === option && styles.windowButtonActive]}
+            onPress={() => setWindowMinutes(option)}
+          >
+            <Text style={[styles.windowButtonText, windowMinutes === option && styles.windowButtonTextActive]}>
+              {option} min
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, !trackingActive && styles.primaryButtonDisabled]}
+        onPress={() => onSchedule(hour, minute, windowMinutes)}
+        disabled={!trackingActive}
+      >
+        <Text style={styles.primaryButtonText}>Programar Alarma</Text>
+      </TouchableOpacity>
+      {!trackingActive && (
+        <Text style={styles.warning}>Activa la detección automática para programar la alarma</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 20,
+    padding: 24,
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+    marginLeft: 8,
+  },
+  timePicker: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 24,
+  },
+  stepButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 20,
+    padding: 8,
+  },
+  alarmTime: {
+    fontSize: 36,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#a0aec0',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  warning: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#f6ad55',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  windowSelector: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 4,
+    alignSelf: 'stretch',
+  },
+  windowButton: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  windowButtonActive: {
+    backgroundColor: '#4fd1c7',
+  },
+  windowButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#a0aec0',
+  },
+  windowButtonTextActive: {
+    color: '#1a365d',
+  },
+  primaryButton: {
+    backgroundColor: '#4fd1c7',
+    paddingHorizontal: 32,
+    paddingVertical: 14,
+    borderRadius: 25,
+    marginTop: 20,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1a365d',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#4fd1c7',
+    paddingHorizontal: 32,
+    paddingVertical: 12,
+    borderRadius: 25,
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#4fd1c7',
+  },
+});
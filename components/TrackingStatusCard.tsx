@@ -0,0 +1,122 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { CirclePause, Loader, Power, Radar, ShieldAlert, TriangleAlert } from 'lucide-react-native';
+import { useFonts, Inter_400Regular, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
+import { TrackingState, TrackingStatus } from '@/types/sleep';
+import {
+  TRACKING_ACTIONS,
+  TRACKING_ACTION_LABELS,
+  TRACKING_STATE_LABELS,
+  TrackingAction,
+} from '@/services/trackingLifecycle';
+
+interface TrackingStatusCardProps {
+  status: TrackingStatus;
+  onAction: (action: TrackingAction) => void;
+}
+
+const STATE_COLORS: Record<TrackingState, string> = {
+  'disabled': '#718096',
+  'needs-permission': '#4fd1c7',
+  'denied': '#f56565',
+  'starting': '#a0aec0',
+  'active': '#48bb78',
+  'paused': '#ecc94b',
+  'error': '#ed8936',
+};
+
+const renderIcon = (state: TrackingState) => {
+  const color = STATE_COLORS[state];
+  switch (state) {
+    case 'disabled':
+      return <Power size={20} color={color} />;
+    case 'needs-permission':
+    case 'denied':
+      return <ShieldAlert size={20} color={color} />;
+    case 'starting':
+      return <Loader size={20} color={color} />;
+    case 'active':
+      return <Radar size={20} color={color} />;
+    case 'paused':
+      return <CirclePause size={20} color={color} />;
+    case 'error':
+      return <TriangleAlert size={20} color={color} />;
+  }
+};
+
+export default function TrackingStatusCard({ status, onAction }: TrackingStatusCardProps) {
+  const [fontsLoaded] = useFonts({
+    'Inter-Regular': Inter_400Regular,
+    'Inter-SemiBold': Inter_600SemiBold,
+    'Inter-Bold': Inter_700Bold,
+  });
+
+  if (!fontsLoaded) {
+    return null;
+  }
+
+  const action = TRACKING_ACTIONS[status.state];
+
+  return (
+    <View style={[styles.container, { borderColor: STATE_COLORS[status.state] }]}>
+      <View style={styles.info}>
+        {renderIcon(status.state)}
+        <View style={styles.textContainer}>
+          <Text style={styles.label}>{TRACKING_STATE_LABELS[status.state]}</Text>
+          {status.state === 'error' && status.error && (
+            <Text style={styles.detail}>{status.error}</Text>
+          )}
+        </View>
+      </View>
+      {action && (
+        <TouchableOpacity style={styles.actionButton} onPress={() => onAction(action)}>
+          <Text style={styles.actionText}>{TRACKING_ACTION_LABELS[action]}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderRadius: 16,
+    padding: 16,
+  },
+  info: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  textContainer: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+  },
+  detail: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#a0aec0',
+    marginTop: 2,
+  },
+  actionButton: {
+    backgroundColor: '#4fd1c7',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    marginLeft: 12,
+  },
+  actionText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1a365d',
+  },
+});
@@ -2,6 +2,7 @@ import React from 'react';
 import { View, Text, StyleSheet, Dimensions } from 'react-native';
 import { SleepSession } from '@/types/sleep';
 import { useFonts, Inter_400Regular, Inter_600SemiBold } from '@expo-google-fonts/inter';
+import { getLocalDayKey, groupSessionsByDay } from '@/services/timeZones';
 
 interface WeeklyTrendChartProps {
   data: SleepSession[];
@@ -23,21 +24,23 @@ export default function WeeklyTrendChart({ data }: WeeklyTrendChartProps) {
   const getLast7Days = () => {
     const days = [];
     const today = new Date();
+    // Nights are filed under the day they started where they were recorded
+    const sessionsByDay = groupSessionsByDay(data);
     
     for (let i = 6; i >= 0; i--) {
       const date = new Date(today);
       date.setDate(date.getDate() - i);
       
-      const daySession = data.find(session => {
-        const sessionDate = new Date(session.bedtime);
-        return sessionDate.toDateString() === date.toDateString();
-      });
+      const daySessions = sessionsByDay.get(getLocalDayKey(date)) ?? [];
+      // Bars show main sleep; naps are marked separately
+      const daySession = daySessions.find(session => session.kind !== 'nap');
       
       days.push({
         day: date.toLocaleDateString('es-ES', { weekday: 'short' }),
         duration: daySession ? daySession.duration / (1000 * 60 * 60) : 0, // Convert to hours
         quality: daySession ? daySession.quality : 0,
         hasData: !!daySession,
+        hasNap: daySessions.some(session => session.kind === 'nap'),
       });
     }
     
@@ -66,6 +69,7 @@ export default function WeeklyTrendChart({ data }: WeeklyTrendChartProps) {
         {weekData.map((day, index) => (
           <View key={index} style={styles.barContainer}>
             <View style={styles.barWrapper}>
+              {day.hasNap && <View style={styles.napMarker} />}
               <View
                 style={[
                   styles.bar,
@@ -99,6 +103,10 @@ export default function WeeklyTrendChart({ data }: WeeklyTrendChartProps) {
           <View style={[styles.legendColor, { backgroundColor: '#f56565' }]} />
          <Text style={styles.legendText}>Mala</Text>
         </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendColor, { backgroundColor: '#9f7aea' }]} />
+         <Text style={styles.legendText}>Siesta</Text>
+        </View>
       </View>
     </View>
   );
@@ -126,6 +134,13 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  napMarker: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#9f7aea',
+    marginBottom: 4,
+  },
   bar: {
     borderRadius: 4,
     minHeight: 4,
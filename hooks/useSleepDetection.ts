@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { SleepDetectionEvent, SleepDetectionState } from '@/types/sleep';
+import detectionService from '@/services/sleepDetection';
+
+export interface SleepDetection extends SleepDetectionState {
+  lastEvent: SleepDetectionEvent | null;
+  error: Error | null; // last error since tracking (re)started
+  initializeTracking: () => Promise<void>;
+  setAutoDetectionEnabled: (enabled: boolean) => Promise<void>;
+  startTracking: () => Promise<void>;
+  stopTracking: () => Promise<void>;
+  endCurrentSession: () => Promise<void>;
+}
+
+// Live view of the detection service; re-renders on every service event
+export function useSleepDetection(): SleepDetection {
+  const [state, setState] = useState<SleepDetectionState>(() => detectionService.getDetectionState());
+  const [lastEvent, setLastEvent] = useState<SleepDetectionEvent | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    const subscription = detectionService.addListener((event) => {
+      setLastEvent(event);
+
+      if (event.type === 'error') {
+        setError(event.error);
+      } else if (event.type === 'tracking-started') {
+        setError(null);
+      }
+
+      setState(event.type === 'probability-updated'
+        ? event.state
+        : detectionService.getDetectionState());
+    });
+
+    // The service may have changed between the first render and subscribing
+    setState(detectionService.getDetectionState());
+    return () => subscription.remove();
+  }, []);
+
+  return {
+    ...state,
+    lastEvent,
+    error,
+    initializeTracking: () => detectionService.initializeTracking(),
+    setAutoDetectionEnabled: (enabled) => detectionService.setAutoDetectionEnabled(enabled),
+    startTracking: () => detectionService.startTracking(),
+    stopTracking: () => detectionService.stopTracking(),
+    endCurrentSession: () => detectionService.endCurrentSession(),
+  };
+}
@@ -0,0 +1,4 @@
+// Native modules jest-expo doesn't mock; tests run against in-memory stand-ins
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
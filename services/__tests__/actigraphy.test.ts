@@ -0,0 +1,34 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { rescoreSession } from '../actigraphy';
+import { AsyncStorageSleepRepository } from '../asyncStorageRepository';
+import { parseMotionTrace, replayMotionTrace } from '../replay';
+import { StorageService } from '../storage';
+
+describe('rescoreSession', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await AsyncStorage.clear();
+    StorageService.useRepository(new AsyncStorageSleepRepository());
+    await StorageService.migrate();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('scores a stored night to the hypnogram it was detected with', async () => {
+    const night = parseMotionTrace(readFileSync(join(__dirname, 'fixtures', 'night.csv'), 'utf8'));
+    const { sessions: [session], actigraphy: [archived] } = await replayMotionTrace(night, {
+      initialPowerState: 'charging',
+    });
+    await StorageService.saveSessionActigraphy(archived);
+
+    const stored = await StorageService.getSessionActigraphy(session.id);
+
+    expect(session.hypnogram?.stages.length).toBeGreaterThan(0);
+    expect(stored).not.toBeNull();
+    expect(rescoreSession({ ...session, hypnogram: undefined }, stored!).hypnogram).toEqual(session.hypnogram);
+  });
+});
@@ -0,0 +1,72 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SleepSession } from '@/types/sleep';
+import { AsyncStorageSleepRepository } from '../asyncStorageRepository';
+
+const HOUR = 60 * 60 * 1000;
+
+const night = (id: string, bedtime: string): SleepSession => ({
+  id,
+  kind: 'main',
+  bedtime: new Date(bedtime),
+  wakeTime: new Date(new Date(bedtime).getTime() + 8 * HOUR),
+  duration: 8 * HOUR,
+  quality: 80,
+  isManual: true,
+  confidence: 1,
+});
+
+const ids = (sessions: SleepSession[]): string[] => sessions.map(session => session.id).sort();
+
+// Sessions as schema 2 kept them, all under one key; as if the partitioning
+// migration had failed and the app started anyway
+const storeLegacySessions = async (sessions: SleepSession[]) => {
+  await AsyncStorage.setItem('schema_version', '2');
+  await AsyncStorage.setItem('sleep_sessions', JSON.stringify({ schemaVersion: 2, data: sessions }));
+};
+
+describe('AsyncStorageSleepRepository before sessions are partitioned', () => {
+  let repository: AsyncStorageSleepRepository;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await AsyncStorage.clear();
+    repository = new AsyncStorageSleepRepository();
+    await storeLegacySessions([night('a', '2026-08-10T22:00:00Z'), night('b', '2026-09-10T22:00:00Z')]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads sessions from the legacy key', async () => {
+    expect(ids(await repository.getSessions())).toEqual(['a', 'b']);
+    expect((await repository.getSession('b'))?.bedtime).toEqual(new Date('2026-09-10T22:00:00Z'));
+  });
+
+  it('keeps legacy sessions visible next to ones saved since', async () => {
+    await repository.saveSession(night('c', '2026-09-12T22:00:00Z'));
+
+    expect(ids(await repository.getSessions())).toEqual(['a', 'b', 'c']);
+  });
+
+  it('deletes a session that is only in the legacy key', async () => {
+    await repository.deleteSession('a');
+
+    expect(ids(await repository.getSessions())).toEqual(['b']);
+  });
+
+  it('merges the legacy sessions with ones saved before the migration ran', async () => {
+    const edited = { ...night('b', '2026-10-01T22:00:00Z'), quality: 40 };
+    await repository.saveSession(night('c', '2026-09-12T22:00:00Z'));
+    await repository.saveSession(edited);
+
+    await repository.migrate();
+
+    expect(await AsyncStorage.getItem('sleep_sessions')).toBeNull();
+    const sessions = await repository.getSessions();
+    expect(ids(sessions)).toEqual(['a', 'b', 'c']);
+    expect(sessions.find(session => session.id === 'b')).toEqual(edited);
+    expect(ids(await repository.getSessions({ start: new Date('2026-09-01T00:00:00Z'), end: new Date('2026-09-30T00:00:00Z') })))
+      .toEqual(['c']);
+  });
+});
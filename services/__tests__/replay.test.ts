@@ -0,0 +1,167 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { DeviceMotionData, SleepSession } from '@/types/sleep';
+import { parseMotionTrace, replayMotionTrace } from '../replay';
+
+// A recorded night at 30-second resolution: up until 22:45, still until
+// 06:45 apart from four brief turns, then up again until 07:45 (UTC)
+const loadNight = (): DeviceMotionData[] =>
+  parseMotionTrace(readFileSync(join(__dirname, 'fixtures', 'night.csv'), 'utf8'));
+
+const at = (iso: string): number => new Date(iso).getTime();
+
+// Samples every 30 seconds, moving or lying still until each segment's end
+const buildTrace = (start: string, segments: { until: string; moving: boolean }[]): DeviceMotionData[] => {
+  const samples: DeviceMotionData[] = [];
+  let timestamp = at(start);
+  segments.forEach(({ until, moving }) => {
+    for (; timestamp < at(until); timestamp += 30 * 1000) {
+      const level = moving ? 0.3 : 0.01;
+      samples.push({
+        timestamp,
+        acceleration: { x: level, y: -level, z: level / 2 },
+        rotation: { alpha: 0, beta: 0, gamma: 0 },
+      });
+    }
+  });
+  return samples;
+};
+
+describe('replayMotionTrace', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('detects the night as one closed session', async () => {
+    const result = await replayMotionTrace(loadNight(), { initialPowerState: 'charging' });
+
+    expect(result.sessions).toHaveLength(1);
+    const [session] = result.sessions;
+    expect(session.kind).toBe('main');
+    expect(session.isManual).toBe(false);
+    expect(session.bedtime.getTime()).toBeGreaterThanOrEqual(at('2026-10-18T22:45:00Z'));
+    expect(session.bedtime.getTime()).toBeLessThanOrEqual(at('2026-10-18T23:15:00Z'));
+    expect(session.wakeTime!.getTime()).toBeGreaterThanOrEqual(at('2026-10-19T06:45:00Z'));
+    expect(session.wakeTime!.getTime()).toBeLessThanOrEqual(at('2026-10-19T07:15:00Z'));
+    expect(session.duration).toBe(session.wakeTime!.getTime() - session.bedtime.getTime());
+    expect(session.hypnogram?.stages.length).toBeGreaterThan(0);
+    expect(session.hasActigraphy).toBe(true);
+    expect(result.actigraphy.map(actigraphy => actigraphy.sessionId)).toEqual([session.id]);
+
+    expect(result.openSession).toBeNull();
+    expect(result.checkpoint).toBeNull();
+    expect(result.detectionLog.length).toBeGreaterThan(0);
+  });
+
+  // Confidence is averaged over the session, not taken from the tick that
+  // opened it, which always sits just above the opening threshold
+  it('leaves a clean night out of review whether charging or not', async () => {
+    const charging = await replayMotionTrace(loadNight(), { initialPowerState: 'charging' });
+    const unplugged = await replayMotionTrace(loadNight());
+
+    [...charging.sessions, ...unplugged.sessions].forEach(session => {
+      expect(session.confidence).toBeGreaterThanOrEqual(0.75);
+      expect(session.reviewStatus).toBeUndefined();
+    });
+    expect(unplugged.sessions).toHaveLength(1);
+  });
+
+  it('flags a detected session that overlaps a stored one', async () => {
+    const manual: SleepSession = {
+      id: 'manual',
+      kind: 'main',
+      bedtime: new Date('2026-10-18T23:00:00Z'),
+      wakeTime: new Date('2026-10-19T06:00:00Z'),
+      duration: 7 * 60 * 60 * 1000,
+      quality: 70,
+      isManual: true,
+      confidence: 1,
+    };
+
+    const result = await replayMotionTrace(loadNight(), { initialPowerState: 'charging', sessions: [manual] });
+
+    expect(result.sessions.map(session => session.id)).toContain('manual');
+    const detected = result.sessions.filter(session => !session.isManual);
+    expect(detected).toHaveLength(1);
+    expect(detected[0].overlapsWith).toEqual(['manual']);
+  });
+
+  it('produces the same sessions on every run', async () => {
+    const first = await replayMotionTrace(loadNight(), { initialPowerState: 'charging' });
+    const second = await replayMotionTrace(loadNight(), { initialPowerState: 'charging' });
+
+    expect(second.sessions).toEqual(first.sessions);
+  });
+
+  // Charging opens a session before the stillness reaches the inactivity
+  // threshold, so getting up right after used to close it before its bedtime
+  it('keeps detecting after getting up right after a session opened', async () => {
+    const errors = jest.spyOn(console, 'error');
+    const samples = buildTrace('2026-10-18T22:00:00Z', [
+      { until: '2026-10-18T22:40:00Z', moving: true },
+      { until: '2026-10-18T22:49:00Z', moving: false },
+      { until: '2026-10-18T23:30:00Z', moving: true },
+      { until: '2026-10-19T06:30:00Z', moving: false },
+      { until: '2026-10-19T07:30:00Z', moving: true },
+    ]);
+
+    const result = await replayMotionTrace(samples, {
+      initialPowerState: 'charging',
+      deviceEvents: [
+        { timestamp: at('2026-10-18T22:49:00Z'), powerState: 'unplugged', appState: 'active' },
+        { timestamp: at('2026-10-18T23:30:00Z'), powerState: 'charging', appState: 'background' },
+      ],
+    });
+
+    expect(errors).not.toHaveBeenCalled();
+    result.sessions.forEach(session => {
+      expect(session.bedtime.getTime()).toBeLessThanOrEqual(session.wakeTime!.getTime());
+    });
+    const night = result.sessions.find(session => session.bedtime.getTime() >= at('2026-10-18T23:30:00Z'));
+    expect(night?.wakeTime?.getTime()).toBeGreaterThanOrEqual(at('2026-10-19T06:30:00Z'));
+    expect(result.openSession).toBeNull();
+    expect(result.checkpoint).toBeNull();
+  });
+
+  it('drops a checkpointed session that ends before its bedtime', async () => {
+    const errors = jest.spyOn(console, 'error');
+    const samples = buildTrace('2026-10-19T07:30:00Z', [{ until: '2026-10-19T08:00:00Z', moving: true }]);
+    const lastActivity = new Date('2026-10-18T22:39:59Z');
+
+    // Killed right after the session opened, relaunched the next morning
+    const result = await replayMotionTrace(samples, {
+      checkpoint: {
+        session: {
+          id: 'killed',
+          kind: 'main',
+          bedtime: new Date('2026-10-18T22:54:59Z'),
+          wakeTime: null,
+          duration: 0,
+          inBedTime: lastActivity,
+          quality: 0,
+          isManual: false,
+          confidence: 0.81,
+        },
+        lastActivity,
+        savedAt: new Date('2026-10-18T22:47:30Z'),
+        activityEpochs: [],
+      },
+    });
+
+    expect(errors).not.toHaveBeenCalled();
+    expect(result.sessions).toEqual([]);
+    expect(result.checkpoint).toBeNull();
+    expect(result.finalState.trackingStatus.state).toBe('active');
+  });
+
+  it('leaves nothing detected when the trace stops before the stillness', async () => {
+    const result = await replayMotionTrace(loadNight(), { endTime: at('2026-10-18T22:40:00Z') });
+
+    expect(result.sessions).toEqual([]);
+    expect(result.openSession).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { SleepSession } from '@/types/sleep';
+import { InMemorySleepRepository } from '../memoryRepository';
+import { SessionValidationError, mergeOverlapping, validateSession } from '../sessionValidation';
+import { storeSleepSession } from '../sessionWrites';
+
+const HOUR = 60 * 60 * 1000;
+
+const session = (id: string, bedtime: string, hours: number, extra: Partial<SleepSession> = {}): SleepSession => {
+  const start = new Date(bedtime);
+  return {
+    id,
+    kind: 'main',
+    bedtime: start,
+    wakeTime: new Date(start.getTime() + hours * HOUR),
+    duration: hours * HOUR,
+    quality: 80,
+    isManual: true,
+    confidence: 1,
+    ...extra,
+  };
+};
+
+const codes = (value: SleepSession) => validateSession(value).map(issue => issue.code);
+
+describe('validateSession', () => {
+  it('accepts a consistent session', () => {
+    expect(codes(session('a', '2026-10-01T22:00:00Z', 8))).toEqual([]);
+  });
+
+  it('flags a wake time before the bedtime', () => {
+    const reversed = session('a', '2026-10-01T22:00:00Z', 8, { wakeTime: new Date('2026-10-01T21:00:00Z') });
+
+    expect(codes(reversed)).toEqual(['wake-before-bedtime']);
+  });
+
+  it('flags a duration that doesn\'t match the span, with the expected one', () => {
+    const mismatched = session('a', '2026-10-01T22:00:00Z', 8, { duration: 6 * HOUR });
+
+    expect(validateSession(mismatched)).toEqual([{ code: 'duration-mismatch', expectedDuration: 8 * HOUR }]);
+  });
+
+  it('tolerates a duration up to a minute off', () => {
+    const stamped = session('a', '2026-10-01T22:00:00Z', 8, { duration: 8 * HOUR - 30 * 1000 });
+
+    expect(codes(stamped)).toEqual([]);
+  });
+
+  it('flags a quality outside 0 to 100', () => {
+    expect(codes(session('a', '2026-10-01T22:00:00Z', 8, { quality: 101 }))).toEqual(['quality-out-of-range']);
+    expect(codes(session('a', '2026-10-01T22:00:00Z', 8, { quality: NaN }))).toEqual(['quality-out-of-range']);
+  });
+
+  it('flags a negative duration on an open session', () => {
+    const open = session('a', '2026-10-01T22:00:00Z', 0, { wakeTime: null, duration: -1 });
+
+    expect(codes(open)).toEqual(['duration-mismatch']);
+  });
+});
+
+describe('mergeOverlapping', () => {
+  it('reaches sessions only the merged span overlaps', () => {
+    const saved = session('new', '2026-10-01T23:00:00Z', 3);
+    const first = session('first', '2026-10-02T01:00:00Z', 3);
+    const second = session('second', '2026-10-02T03:30:00Z', 3);
+
+    const { merged, absorbed } = mergeOverlapping(saved, [first, second]);
+
+    expect(absorbed.map(other => other.id)).toEqual(['first', 'second']);
+    expect(merged.id).toBe('new');
+    expect(merged.bedtime).toEqual(saved.bedtime);
+    expect(merged.wakeTime).toEqual(second.wakeTime);
+    expect(merged.duration).toBe(7.5 * HOUR);
+  });
+});
+
+describe('storeSleepSession overlap policies', () => {
+  const detected = session('detected', '2026-10-01T22:30:00Z', 8, {
+    isManual: false,
+    confidence: 0.9,
+    quality: 75,
+    hasActigraphy: true,
+  });
+  const manual = session('manual', '2026-10-01T23:00:00Z', 7, { quality: 0 });
+
+  let repository: InMemorySleepRepository;
+
+  beforeEach(async () => {
+    repository = new InMemorySleepRepository({ sessions: [detected] });
+    await repository.saveActigraphy({
+      sessionId: 'detected',
+      startTime: detected.bedtime,
+      epochDuration: 30 * 1000,
+      activity: [0.01],
+    });
+  });
+
+  it('rejects an invalid session before looking for overlaps', async () => {
+    const invalid = { ...manual, quality: -5 };
+
+    await expect(storeSleepSession(repository, invalid, 'keep-both')).rejects.toThrow(SessionValidationError);
+    expect(await repository.getSession('manual')).toBeNull();
+  });
+
+  it('rejects an overlap, naming the stored session', async () => {
+    const error = await storeSleepSession(repository, manual, 'reject').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SessionValidationError);
+    expect(error.isOverlapOnly).toBe(true);
+    expect(error.overlappingSessions.map((other: SleepSession) => other.id)).toEqual(['detected']);
+    expect(await repository.getSession('manual')).toBeNull();
+  });
+
+  it('keeps both and flags the overlap', async () => {
+    const stored = await storeSleepSession(repository, manual, 'keep-both');
+
+    expect(stored.overlapsWith).toEqual(['detected']);
+    expect((await repository.getSessions()).map(other => other.id).sort()).toEqual(['detected', 'manual']);
+  });
+
+  it('doesn\'t reject again an overlap that was kept', async () => {
+    const kept = await storeSleepSession(repository, manual, 'keep-both');
+
+    await expect(storeSleepSession(repository, { ...kept, notes: 'edited' }, 'reject')).resolves.toMatchObject({
+      overlapsWith: ['detected'],
+    });
+  });
+
+  it('merges into one session that keeps the recorded data', async () => {
+    const merged = await storeSleepSession(repository, manual, 'merge');
+
+    expect(merged.id).toBe('manual');
+    expect(merged.bedtime).toEqual(detected.bedtime);
+    expect(merged.wakeTime).toEqual(detected.wakeTime);
+    expect(merged.quality).toBe(75);
+    expect(merged.hasActigraphy).toBe(true);
+    expect((await repository.getSessions()).map(other => other.id)).toEqual(['manual']);
+    expect((await repository.getActigraphy('manual'))?.sessionId).toBe('manual');
+    expect(await repository.getActigraphy('detected')).toBeNull();
+  });
+
+  it('saves a session without overlaps under any policy', async () => {
+    const later = session('later', '2026-10-03T22:00:00Z', 8);
+
+    const stored = await storeSleepSession(repository, later, 'reject');
+
+    expect(stored.overlapsWith).toBeUndefined();
+    expect(await repository.getSession('later')).not.toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { SessionActigraphy, SleepSession } from '@/types/sleep';
+import { InMemorySleepRepository } from '../memoryRepository';
+import { copySleepData } from '../sleepRepository';
+
+const session: SleepSession = {
+  id: 'a',
+  kind: 'main',
+  bedtime: new Date('2026-10-01T22:00:00Z'),
+  wakeTime: new Date('2026-10-02T06:00:00Z'),
+  duration: 8 * 60 * 60 * 1000,
+  quality: 80,
+  isManual: false,
+  confidence: 0.9,
+  hasActigraphy: true,
+};
+
+const actigraphy: SessionActigraphy = {
+  sessionId: 'a',
+  startTime: new Date('2026-10-01T21:45:00Z'),
+  epochDuration: 30 * 1000,
+  activity: [0.01, null, 0.2],
+};
+
+describe('copySleepData', () => {
+  it('brings sessions, actigraphy, logs and records to the new backend', async () => {
+    const from = new InMemorySleepRepository({
+      sessions: [session],
+      records: { settings: { sleepGoalHours: 7 }, trackingStatus: true },
+    });
+    await from.saveActigraphy(actigraphy);
+    await from.saveDetectionLog('2026-10-01', []);
+    const to = new InMemorySleepRepository();
+
+    await copySleepData(from, to);
+
+    expect(await to.getSessions()).toEqual([session]);
+    expect(await to.getActigraphy('a')).toEqual(actigraphy);
+    expect(await to.getDetectionLogNights()).toEqual(['2026-10-01']);
+    expect(await to.getRecord('settings')).toEqual({ sleepGoalHours: 7 });
+    expect(await to.getRecord('trackingStatus')).toBe(true);
+    expect(await to.getRecord('smartAlarm')).toBeNull();
+  });
+});
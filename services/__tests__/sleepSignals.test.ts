@@ -0,0 +1,89 @@
+import { DEFAULT_SLEEP_SCHEDULE } from '../sleepSchedule';
+import { SleepSignal, SleepSignalContext, fuseSignals } from '../sleepSignals';
+
+const context: SleepSignalContext = {
+  window: { start: new Date('2026-10-19T02:00:00Z'), end: new Date('2026-10-19T02:01:00Z') },
+  inactivityDuration: 0,
+  recentMotionLevel: 0,
+  powerState: 'unplugged',
+  lastPowerTransition: null,
+  appState: 'background',
+  thresholds: { inactivityThreshold: 15 * 60 * 1000, motionThreshold: 0.1, sleepConfidenceThreshold: 0.8 },
+  schedule: DEFAULT_SLEEP_SCHEDULE,
+};
+
+const fixed = (id: string, score: number, weight: number): SleepSignal => ({
+  id,
+  label: id,
+  read: () => ({ score, weight }),
+});
+
+describe('fuseSignals', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('adds up each weighted score', () => {
+    const result = fuseSignals([fixed('a', 1, 0.4), fixed('b', 0.5, 0.2)], context);
+
+    expect(result.contributions).toEqual({ a: 0.4, b: 0.1 });
+    expect(result.probability).toBeCloseTo(0.5);
+  });
+
+  it('uses an override weight instead of the provider\'s own', () => {
+    const result = fuseSignals([fixed('a', 1, 0.4), fixed('b', 1, 0.2)], context, {
+      weights: { b: 0.5 },
+      disabled: [],
+    });
+
+    expect(result.contributions).toEqual({ a: 0.4, b: 0.5 });
+    expect(result.probability).toBeCloseTo(0.9);
+  });
+
+  it('leaves disabled providers out without reading them', () => {
+    const disabled = fixed('b', 1, 0.5);
+    const read = jest.spyOn(disabled, 'read');
+
+    const result = fuseSignals([fixed('a', 1, 0.4), disabled], context, { weights: {}, disabled: ['b'] });
+
+    expect(read).not.toHaveBeenCalled();
+    expect(result.contributions).toEqual({ a: 0.4 });
+  });
+
+  it('clamps scores to -1..1 and the total to a probability', () => {
+    const high = fuseSignals([fixed('a', 3, 0.6), fixed('b', 1, 0.6)], context);
+    const low = fuseSignals([fixed('a', -5, 0.5)], context);
+
+    expect(high.contributions).toEqual({ a: 0.6, b: 0.6 });
+    expect(high.probability).toBe(1);
+    expect(low.contributions).toEqual({ a: -0.5 });
+    expect(low.probability).toBe(0);
+  });
+
+  it('gives zero when every weight is zero or nothing has a reading', () => {
+    const silent: SleepSignal = { id: 'silent', label: 'silent', read: () => null };
+
+    const result = fuseSignals([fixed('a', 1, 0.4), silent], context, { weights: { a: 0 }, disabled: [] });
+
+    expect(result.contributions).toEqual({ a: 0 });
+    expect(result.probability).toBe(0);
+    expect(fuseSignals([], context).probability).toBe(0);
+  });
+
+  it('skips a provider that throws and keeps the rest', () => {
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const broken: SleepSignal = {
+      id: 'broken',
+      label: 'broken',
+      read: () => {
+        throw new Error('sensor gone');
+      },
+    };
+
+    const result = fuseSignals([broken, fixed('a', 1, 0.4)], context);
+
+    expect(result.contributions).toEqual({ a: 0.4 });
+    expect(result.probability).toBeCloseTo(0.4);
+    expect(errors).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SleepSession } from '@/types/sleep';
+import { StorageService } from '../storage';
+import { AsyncStorageSleepRepository } from '../asyncStorageRepository';
+
+const HOUR = 60 * 60 * 1000;
+
+const night = (id: string, bedtime: string, hours = 8): SleepSession => {
+  const start = new Date(bedtime);
+  return {
+    id,
+    kind: 'main',
+    bedtime: start,
+    wakeTime: new Date(start.getTime() + hours * HOUR),
+    duration: hours * HOUR,
+    quality: 80,
+    isManual: true,
+    confidence: 1,
+  };
+};
+
+const storedIds = async (): Promise<string[]> =>
+  (await StorageService.getSleepSessions()).map(session => session.id).sort();
+
+// Every mutation reads the month's partition and the index, then writes them
+// back; without serialized writes the last one to finish wins.
+describe('StorageService concurrent writes', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await AsyncStorage.clear();
+    StorageService.useRepository(new AsyncStorageSleepRepository());
+    await StorageService.migrate();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps every session saved at the same time', async () => {
+    await Promise.all([
+      StorageService.saveSleepSession(night('a', '2026-10-01T22:00:00Z')),
+      StorageService.saveSleepSession(night('b', '2026-10-02T22:00:00Z')),
+      StorageService.saveSleepSession(night('c', '2026-10-03T22:00:00Z')),
+    ]);
+
+    expect(await storedIds()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('applies deletes and a save made at the same time', async () => {
+    await StorageService.saveSleepSession(night('a', '2026-10-01T22:00:00Z'));
+    await StorageService.saveSleepSession(night('b', '2026-10-02T22:00:00Z'));
+
+    await Promise.all([
+      StorageService.saveSleepSession(night('c', '2026-10-03T22:00:00Z')),
+      StorageService.deleteSleepSession('a'),
+      StorageService.deleteSleepSession('b'),
+    ]);
+
+    expect(await storedIds()).toEqual(['c']);
+  });
+
+  it('keeps every field of concurrent settings updates', async () => {
+    await Promise.all([
+      StorageService.updateSettings({ sleepGoalHours: 6 }),
+      StorageService.updateSettings({ autoDetectionEnabled: false }),
+      StorageService.updateSettings({ detectionSensitivity: 'high' }),
+    ]);
+
+    const settings = await StorageService.getSettings();
+    expect(settings.sleepGoalHours).toBe(6);
+    expect(settings.autoDetectionEnabled).toBe(false);
+    expect(settings.detectionSensitivity).toBe('high');
+  });
+
+  it('applies session and settings writes made together', async () => {
+    await StorageService.saveSleepSession(night('a', '2026-10-01T22:00:00Z'));
+
+    await Promise.all([
+      StorageService.saveSleepSession(night('b', '2026-10-02T22:00:00Z')),
+      StorageService.deleteSleepSession('a'),
+      StorageService.updateSettings({ sleepGoalHours: 7 }),
+      StorageService.saveSleepSession(night('c', '2026-10-03T22:00:00Z')),
+      StorageService.updateSettings({ batteryOptimized: false }),
+    ]);
+
+    expect(await storedIds()).toEqual(['b', 'c']);
+    const settings = await StorageService.getSettings();
+    expect(settings.sleepGoalHours).toBe(7);
+    expect(settings.batteryOptimized).toBe(false);
+  });
+
+  it('carries on with queued writes after one fails', async () => {
+    const invalid = { ...night('bad', '2026-10-01T22:00:00Z'), duration: -1 };
+
+    const results = await Promise.allSettled([
+      StorageService.saveSleepSession(invalid),
+      StorageService.saveSleepSession(night('a', '2026-10-02T22:00:00Z')),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'fulfilled']);
+    expect(await storedIds()).toEqual(['a']);
+  });
+});
@@ -0,0 +1,120 @@
+import { CURRENT_SCHEMA_VERSION, MigrationStore, STORAGE_MIGRATIONS, runMigrations } from '../storageMigrations';
+
+// Keeps values in a map and counts every write
+class FakeMigrationStore implements MigrationStore {
+  values = new Map<string, string>();
+  writes = 0;
+
+  constructor(initial: Record<string, unknown> = {}) {
+    Object.entries(initial).forEach(([key, value]) =>
+      this.values.set(key, typeof value === 'string' ? value : JSON.stringify(value))
+    );
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.writes += 1;
+    this.values.set(key, value);
+  }
+
+  async multiSet(keyValuePairs: readonly (readonly [string, string])[]): Promise<void> {
+    this.writes += 1;
+    keyValuePairs.forEach(([key, value]) => this.values.set(key, value));
+  }
+
+  async multiRemove(keys: readonly string[]): Promise<void> {
+    this.writes += 1;
+    keys.forEach(key => this.values.delete(key));
+  }
+
+  read(key: string): any {
+    const value = this.values.get(key);
+    return value === undefined ? undefined : JSON.parse(value);
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// Naps are told apart by local time, so bedtimes are set in local time
+const legacySession = (id: string, bedtime: Date, duration: number) => ({
+  id,
+  bedtime: bedtime.toISOString(),
+  wakeTime: new Date(bedtime.getTime() + duration).toISOString(),
+  duration,
+  quality: 80,
+  isManual: true,
+  confidence: 1,
+});
+
+// Sessions as the first release stored them: a bare list, no kind
+const legacySessions = [
+  legacySession('a', new Date(2026, 7, 10, 22, 0), 8 * HOUR),
+  legacySession('b', new Date(2026, 8, 10, 13, 0), HOUR / 2),
+];
+
+describe('runMigrations', () => {
+  it('writes nothing when the data is already current', async () => {
+    const store = new FakeMigrationStore({ schema_version: String(CURRENT_SCHEMA_VERSION) });
+
+    const result = await runMigrations(store);
+
+    expect(result.applied).toEqual([]);
+    expect(store.writes).toBe(0);
+  });
+
+  it('leaves the data and version untouched when a migration throws', async () => {
+    const store = new FakeMigrationStore({ schema_version: '0', sleep_sessions: legacySessions });
+    const failing = {
+      version: CURRENT_SCHEMA_VERSION + 1,
+      description: 'Always fails',
+      keys: ['sleep_sessions'],
+      migrate: () => {
+        throw new Error('unreadable');
+      },
+    };
+
+    await expect(runMigrations(store, [...STORAGE_MIGRATIONS, failing])).rejects.toThrow(/Always fails.*unreadable/);
+    expect(store.writes).toBe(0);
+    expect(store.read('schema_version')).toBe(0);
+    expect(store.read('sleep_sessions')).toEqual(legacySessions);
+  });
+
+  it('brings first-release data up to the current schema', async () => {
+    const store = new FakeMigrationStore({
+      sleep_sessions: legacySessions,
+      sleep_settings: { sleepGoalHours: 7 },
+    });
+
+    const result = await runMigrations(store);
+
+    expect(result).toEqual({ from: 0, to: 3, applied: [1, 2, 3] });
+    expect(store.read('schema_version')).toBe(3);
+    expect(store.read('sleep_sessions')).toBeUndefined();
+    expect(store.read('sleep_settings')).toEqual({ schemaVersion: 1, data: { sleepGoalHours: 7 } });
+    expect(store.read('sleep_sessions_index').data).toEqual({
+      months: ['2026-08', '2026-09'],
+      sessionMonths: { a: '2026-08', b: '2026-09' },
+    });
+    expect(store.read('sleep_sessions_2026-08').data.map((session: any) => session.kind)).toEqual(['main']);
+    expect(store.read('sleep_sessions_2026-09').data.map((session: any) => session.kind)).toEqual(['nap']);
+  });
+
+  it('finishes an interrupted partitioning without duplicating sessions', async () => {
+    const store = new FakeMigrationStore({ schema_version: '2', sleep_sessions: { schemaVersion: 2, data: legacySessions } });
+    const completed = new FakeMigrationStore({ ...Object.fromEntries(store.values) });
+    await runMigrations(completed);
+
+    // Partitions and index written, but the old key and version weren't
+    completed.values.forEach((value, key) => {
+      if (key !== 'schema_version') store.values.set(key, value);
+    });
+
+    const result = await runMigrations(store);
+
+    expect(result.applied).toEqual([3]);
+    expect(Object.fromEntries(store.values)).toEqual(Object.fromEntries(completed.values));
+  });
+});
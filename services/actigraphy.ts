@@ -0,0 +1,59 @@
+import { ActivityEpoch, SessionActigraphy, SleepSession } from '@/types/sleep';
+import { EPOCH_DURATION, scoreHypnogram } from './sleepStaging';
+
+// Four decimals keep resting noise (around 0.002 m/s²) distinguishable while
+// keeping a full night to a few kilobytes of JSON.
+const ACTIVITY_PRECISION = 10000;
+
+export function buildSessionActigraphy(
+  sessionId: string,
+  epochs: ActivityEpoch[],
+  startTime: number,
+  endTime: number
+): SessionActigraphy {
+  const firstEpoch = Math.floor(startTime / EPOCH_DURATION) * EPOCH_DURATION;
+  const epochCount = Math.max(0, Math.ceil((endTime - firstEpoch) / EPOCH_DURATION));
+  const activity = new Array<number | null>(epochCount).fill(null);
+
+  epochs.forEach(epoch => {
+    const index = Math.floor((epoch.start - firstEpoch) / EPOCH_DURATION);
+    if (index >= 0 && index < epochCount) {
+      activity[index] = Math.round(epoch.activity * ACTIVITY_PRECISION) / ACTIVITY_PRECISION;
+    }
+  });
+
+  return {
+    sessionId,
+    startTime: new Date(firstEpoch),
+    epochDuration: EPOCH_DURATION,
+    activity,
+  };
+}
+
+export function toActivityEpochs(actigraphy: SessionActigraphy): ActivityEpoch[] {
+  const startTime = actigraphy.startTime.getTime();
+  const epochs: ActivityEpoch[] = [];
+
+  actigraphy.activity.forEach((activity, index) => {
+    if (activity === null) return;
+    epochs.push({ start: startTime + index * actigraphy.epochDuration, activity });
+  });
+
+  return epochs;
+}
+
+// Re-runs staging on an archived night, e.g. after the scoring changed
+export function rescoreSession(session: SleepSession, actigraphy: SessionActigraphy): SleepSession {
+  const wakeTime = session.wakeTime ?? new Date(
+    actigraphy.startTime.getTime() + actigraphy.activity.length * actigraphy.epochDuration
+  );
+
+  return {
+    ...session,
+    hypnogram: scoreHypnogram(
+      toActivityEpochs(actigraphy),
+      session.bedtime.getTime(),
+      wakeTime.getTime()
+    ),
+  };
+}
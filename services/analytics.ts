@@ -1,10 +1,33 @@
-import { SleepSession } from '@/types/sleep';
+import { SleepSchedule, SleepSession } from '@/types/sleep';
+import { getSleepEfficiency, getSleepOnsetLatency } from './sleepTiming';
+import { DEFAULT_SLEEP_SCHEDULE, calculateConsistencyScore } from './sleepSchedule';
+import { formatSessionDate, getLocalDayKey, getSessionDayKey } from './timeZones';
+
+export interface NapStats {
+  count: number;
+  averageDuration: number; // in milliseconds
+  totalDuration: number; // in milliseconds
+}
 
 export class SleepAnalytics {
+  // Main sleep only; naps are kept apart so they don't skew nightly metrics.
+  // Sessions still waiting for review are left out until confirmed.
   private sessions: SleepSession[];
+  private naps: SleepSession[];
+  private pendingReview: SleepSession[];
+  private schedule: SleepSchedule; // consistency is measured against it
+
+  constructor(sessions: SleepSession[], schedule: SleepSchedule = DEFAULT_SLEEP_SCHEDULE) {
+    this.schedule = schedule;
+    const completed = sessions.filter(session => session.wakeTime !== null);
+    const reviewed = completed.filter(session => session.reviewStatus !== 'pending');
+    this.sessions = reviewed.filter(session => session.kind !== 'nap');
+    this.naps = reviewed.filter(session => session.kind === 'nap');
+    this.pendingReview = completed.filter(session => session.reviewStatus === 'pending');
+  }
 
-  constructor(sessions: SleepSession[]) {
-    this.sessions = sessions.filter(session => session.wakeTime !== null);
+  getPendingReviewCount(): number {
+    return this.pendingReview.length;
   }
 
   getAverageDuration(): number {
@@ -22,23 +45,38 @@ export class SleepAnalytics {
   }
 
   getConsistencyScore(): number {
-    if (this.sessions.length < 2) return 0;
-    
-    // Calculate bedtime consistency
-    const bedtimes = this.sessions.map(session => {
-      const bedtime = new Date(session.bedtime);
-      return bedtime.getHours() * 60 + bedtime.getMinutes();
-    });
-    
-    const mean = bedtimes.reduce((sum, time) => sum + time, 0) / bedtimes.length;
-    const variance = bedtimes.reduce((sum, time) => sum + Math.pow(time - mean, 2), 0) / bedtimes.length;
-    const stdDev = Math.sqrt(variance);
-    
-    // Convert to consistency score (lower std dev = higher consistency)
-    const maxStdDev = 120; // 2 hours
-    const consistency = Math.max(0, (maxStdDev - stdDev) / maxStdDev) * 100;
-    
-    return Math.round(consistency);
+    return calculateConsistencyScore(
+      this.sessions.map(session => new Date(session.bedtime)),
+      this.schedule
+    );
+  }
+
+  // Only sessions with a known in-bed time and onset have a latency
+  getAverageSleepOnsetLatency(): number | null {
+    const latencies = this.sessions
+      .map(session => getSleepOnsetLatency(session))
+      .filter((latency): latency is number => latency !== null);
+    if (latencies.length === 0) return null;
+
+    return latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length;
+  }
+
+  getAverageSleepEfficiency(): number | null {
+    const efficiencies = this.sessions
+      .map(session => getSleepEfficiency(session))
+      .filter((efficiency): efficiency is number => efficiency !== null);
+    if (efficiencies.length === 0) return null;
+
+    return efficiencies.reduce((sum, efficiency) => sum + efficiency, 0) / efficiencies.length;
+  }
+
+  getNapStats(): NapStats {
+    const totalDuration = this.naps.reduce((sum, nap) => sum + nap.duration, 0);
+    return {
+      count: this.naps.length,
+      averageDuration: this.naps.length > 0 ? totalDuration / this.naps.length : 0,
+      totalDuration,
+    };
   }
 
   getDurationTrend(): string {
@@ -88,7 +126,7 @@ export class SleepAnalytics {
     const dayQuality: { [key: string]: { total: number; count: number } } = {};
     
     this.sessions.forEach(session => {
-      const day = new Date(session.bedtime).toLocaleDateString('es-ES', { weekday: 'long' });
+      const day = formatSessionDate(session, session.bedtime, { weekday: 'long' });
       if (!dayQuality[day]) {
         dayQuality[day] = { total: 0, count: 0 };
       }
@@ -116,7 +154,7 @@ export class SleepAnalytics {
     const dayQuality: { [key: string]: { total: number; count: number } } = {};
     
     this.sessions.forEach(session => {
-      const day = new Date(session.bedtime).toLocaleDateString('es-ES', { weekday: 'long' });
+      const day = formatSessionDate(session, session.bedtime, { weekday: 'long' });
       if (!dayQuality[day]) {
         dayQuality[day] = { total: 0, count: 0 };
       }
@@ -146,10 +184,8 @@ export class SleepAnalytics {
       const date = new Date(today);
       date.setDate(date.getDate() - i);
       
-      const daySession = this.sessions.find(session => {
-        const sessionDate = new Date(session.bedtime);
-        return sessionDate.toDateString() === date.toDateString();
-      });
+      const dayKey = getLocalDayKey(date);
+      const daySession = this.sessions.find(session => getSessionDayKey(session) === dayKey);
       
       last7Days.push({
         day: date.toLocaleDateString('es-ES', { weekday: 'short' }),
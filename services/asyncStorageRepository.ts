@@ -0,0 +1,247 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DetectionLogEntry,
+  SessionActigraphy,
+  SessionPartitionIndex,
+  SleepSession,
+} from '@/types/sleep';
+import { SessionRange, SleepRecordName, SleepRecords, SleepRepository, isInSessionRange } from './sleepRepository';
+import { reviveActigraphy, reviveLogEntry, reviveRecord, reviveSession } from './storageSerialization';
+import { runMigrations, unwrapEnvelope, wrapEnvelope } from './storageMigrations';
+
+const LEGACY_SESSIONS_KEY = 'sleep_sessions'; // before partitioning (schema 3)
+const SESSION_INDEX_KEY = 'sleep_sessions_index';
+const SESSION_PARTITION_KEY_PREFIX = 'sleep_sessions_'; // + YYYY-MM
+const ACTIGRAPHY_KEY_PREFIX = 'actigraphy_';
+const DETECTION_LOG_KEY_PREFIX = 'detection_log_';
+
+const RECORD_KEYS: Record<SleepRecordName, string> = {
+  settings: 'sleep_settings',
+  trackingStatus: 'sleepTracking',
+  motionBaseline: 'motion_baseline',
+  detectionCheckpoint: 'detection_checkpoint',
+  smartAlarm: 'smart_alarm',
+  jetLagTrip: 'jet_lag_trip',
+};
+
+// Records whose shape is versioned by the storage migrations
+const ENVELOPED_RECORDS = new Set<SleepRecordName>(['settings']);
+
+// Sessions are partitioned by the UTC month they started in
+const getPartitionMonth = (bedtime: Date): string => bedtime.toISOString().slice(0, 7);
+
+// The default backend. Sessions live in monthly partitions behind a small
+// index, and actigraphy and detection logs under one key each, so no write
+// has to rewrite the whole history.
+export class AsyncStorageSleepRepository implements SleepRepository {
+  async migrate(): Promise<void> {
+    const result = await runMigrations(AsyncStorage);
+    if (result.applied.length > 0) {
+      console.log(`Storage migrated from schema ${result.from} to ${result.to}`);
+    }
+  }
+
+  private async getSessionIndex(): Promise<SessionPartitionIndex> {
+    const indexJson = await AsyncStorage.getItem(SESSION_INDEX_KEY);
+    if (!indexJson) return { months: [], sessionMonths: {} };
+
+    return unwrapEnvelope<SessionPartitionIndex>(JSON.parse(indexJson));
+  }
+
+  // Sessions still in the single pre-partition key while its migration is
+  // pending. Saves since then went to the partitions and take precedence.
+  private async readLegacySessions(): Promise<SleepSession[]> {
+    const legacyJson = await AsyncStorage.getItem(LEGACY_SESSIONS_KEY);
+    if (!legacyJson) return [];
+
+    const sessions = unwrapEnvelope<any[]>(JSON.parse(legacyJson));
+    return Array.isArray(sessions) ? sessions.map(reviveSession) : [];
+  }
+
+  // Keeps the key's envelope, so the pending migration still recognizes it
+  private async removeLegacySession(id: string): Promise<void> {
+    const legacyJson = await AsyncStorage.getItem(LEGACY_SESSIONS_KEY);
+    if (!legacyJson) return;
+
+    const parsed = JSON.parse(legacyJson);
+    const sessions = unwrapEnvelope<any[]>(parsed);
+    if (!Array.isArray(sessions) || !sessions.some(session => session.id === id)) return;
+
+    const remaining = sessions.filter(session => session.id !== id);
+    await AsyncStorage.setItem(
+      LEGACY_SESSIONS_KEY,
+      JSON.stringify(parsed === sessions ? remaining : { ...parsed, data: remaining })
+    );
+  }
+
+  private async readPartitions(months: string[]): Promise<Map<string, SleepSession[]>> {
+    if (months.length === 0) return new Map();
+
+    const entries = await AsyncStorage.multiGet(months.map(month => SESSION_PARTITION_KEY_PREFIX + month));
+    return new Map(entries.map(([, partitionJson], index) => [
+      months[index],
+      partitionJson ? unwrapEnvelope<any[]>(JSON.parse(partitionJson)).map(reviveSession) : [],
+    ]));
+  }
+
+  // Writes the changed partitions together with the index; partitions left
+  // empty are removed
+  private async writePartitions(
+    partitions: Map<string, SleepSession[]>,
+    index: SessionPartitionIndex
+  ): Promise<void> {
+    const months = new Set(index.months);
+    const writes: [string, string][] = [];
+    const removals: string[] = [];
+
+    partitions.forEach((sessions, month) => {
+      if (sessions.length > 0) {
+        months.add(month);
+        writes.push([SESSION_PARTITION_KEY_PREFIX + month, JSON.stringify(wrapEnvelope(sessions))]);
+      } else {
+        months.delete(month);
+        removals.push(SESSION_PARTITION_KEY_PREFIX + month);
+      }
+    });
+
+    const updatedIndex: SessionPartitionIndex = { ...index, months: Array.from(months).sort() };
+    await AsyncStorage.multiSet([...writes, [SESSION_INDEX_KEY, JSON.stringify(wrapEnvelope(updatedIndex))]]);
+    if (removals.length > 0) {
+      await AsyncStorage.multiRemove(removals);
+    }
+  }
+
+  async saveSession(session: SleepSession): Promise<void> {
+    const index = await this.getSessionIndex();
+    const month = getPartitionMonth(session.bedtime);
+    // An edited bedtime can move the session to another month
+    const previousMonth = index.sessionMonths[session.id];
+    const moved = previousMonth !== undefined && previousMonth !== month;
+    const partitions = await this.readPartitions(moved ? [month, previousMonth] : [month]);
+
+    if (moved) {
+      partitions.set(previousMonth, (partitions.get(previousMonth) ?? []).filter(s => s.id !== session.id));
+    }
+    const sessions = partitions.get(month) ?? [];
+    const sessionIndex = sessions.findIndex(s => s.id === session.id);
+    if (sessionIndex >= 0) {
+      sessions[sessionIndex] = session;
+    } else {
+      sessions.push(session);
+    }
+    partitions.set(month, sessions);
+
+    await this.writePartitions(partitions, {
+      ...index,
+      sessionMonths: { ...index.sessionMonths, [session.id]: month },
+    });
+  }
+
+  async getSession(id: string): Promise<SleepSession | null> {
+    const month = (await this.getSessionIndex()).sessionMonths[id];
+    if (!month) {
+      return (await this.readLegacySessions()).find(session => session.id === id) ?? null;
+    }
+
+    const partitions = await this.readPartitions([month]);
+    return partitions.get(month)?.find(session => session.id === id) ?? null;
+  }
+
+  // Reads only the partitions the range covers
+  async getSessions(range: SessionRange = {}): Promise<SleepSession[]> {
+    const index = await this.getSessionIndex();
+    const firstMonth = range.start ? getPartitionMonth(range.start) : null;
+    const lastMonth = range.end ? getPartitionMonth(range.end) : null;
+    const months = index.months.filter(month =>
+      (!firstMonth || month >= firstMonth) && (!lastMonth || month <= lastMonth)
+    );
+    const partitions = await this.readPartitions(months);
+    const legacy = (await this.readLegacySessions()).filter(session => !index.sessionMonths[session.id]);
+
+    return [...Array.from(partitions.values()).flat(), ...legacy]
+      .filter(session => isInSessionRange(session, range));
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await this.removeLegacySession(id);
+    const index = await this.getSessionIndex();
+    const month = index.sessionMonths[id];
+    if (!month) return;
+
+    const partitions = await this.readPartitions([month]);
+    partitions.set(month, (partitions.get(month) ?? []).filter(session => session.id !== id));
+
+    const sessionMonths = { ...index.sessionMonths };
+    delete sessionMonths[id];
+    await this.writePartitions(partitions, { ...index, sessionMonths });
+  }
+
+  async saveActigraphy(actigraphy: SessionActigraphy): Promise<void> {
+    await AsyncStorage.setItem(ACTIGRAPHY_KEY_PREFIX + actigraphy.sessionId, JSON.stringify(actigraphy));
+  }
+
+  async getActigraphy(sessionId: string): Promise<SessionActigraphy | null> {
+    const actigraphyJson = await AsyncStorage.getItem(ACTIGRAPHY_KEY_PREFIX + sessionId);
+    return actigraphyJson ? reviveActigraphy(JSON.parse(actigraphyJson)) : null;
+  }
+
+  async deleteActigraphy(sessionId: string): Promise<void> {
+    await AsyncStorage.removeItem(ACTIGRAPHY_KEY_PREFIX + sessionId);
+  }
+
+  async saveDetectionLog(night: string, entries: DetectionLogEntry[]): Promise<void> {
+    await AsyncStorage.setItem(DETECTION_LOG_KEY_PREFIX + night, JSON.stringify(entries));
+  }
+
+  async getDetectionLog(night: string): Promise<DetectionLogEntry[]> {
+    const logJson = await AsyncStorage.getItem(DETECTION_LOG_KEY_PREFIX + night);
+    return logJson ? JSON.parse(logJson).map(reviveLogEntry) : [];
+  }
+
+  async getDetectionLogNights(): Promise<string[]> {
+    const allKeys = await AsyncStorage.getAllKeys();
+    return allKeys
+      .filter(key => key.startsWith(DETECTION_LOG_KEY_PREFIX))
+      .map(key => key.slice(DETECTION_LOG_KEY_PREFIX.length))
+      .sort()
+      .reverse();
+  }
+
+  async deleteDetectionLogs(nights: string[]): Promise<void> {
+    if (nights.length === 0) return;
+    await AsyncStorage.multiRemove(nights.map(night => DETECTION_LOG_KEY_PREFIX + night));
+  }
+
+  async saveRecord<K extends SleepRecordName>(name: K, value: SleepRecords[K] | null): Promise<void> {
+    if (value === null) {
+      await AsyncStorage.removeItem(RECORD_KEYS[name]);
+      return;
+    }
+
+    const stored = ENVELOPED_RECORDS.has(name) ? wrapEnvelope(value) : value;
+    await AsyncStorage.setItem(RECORD_KEYS[name], JSON.stringify(stored));
+  }
+
+  async getRecord<K extends SleepRecordName>(name: K): Promise<SleepRecords[K] | null> {
+    const recordJson = await AsyncStorage.getItem(RECORD_KEYS[name]);
+    if (recordJson === null) return null;
+
+    const parsed = JSON.parse(recordJson);
+    return reviveRecord(name, ENVELOPED_RECORDS.has(name) ? unwrapEnvelope(parsed) : parsed);
+  }
+
+  // Keeps the tracking flag and schema version, as clearing data always has
+  async clear(): Promise<void> {
+    const allKeys = await AsyncStorage.getAllKeys();
+    // The partition prefix also covers the partition index
+    const perRecordKeys = allKeys.filter(key =>
+      key.startsWith(ACTIGRAPHY_KEY_PREFIX)
+      || key.startsWith(DETECTION_LOG_KEY_PREFIX)
+      || key.startsWith(SESSION_PARTITION_KEY_PREFIX)
+    );
+    const recordKeys = (Object.keys(RECORD_KEYS) as SleepRecordName[])
+      .filter(name => name !== 'trackingStatus')
+      .map(name => RECORD_KEYS[name]);
+    await AsyncStorage.multiRemove([LEGACY_SESSIONS_KEY, ...recordKeys, ...perRecordKeys]);
+  }
+}
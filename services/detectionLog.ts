@@ -0,0 +1,82 @@
+import { DetectionAction, DetectionLogEntry, SleepSignalContributions } from '@/types/sleep';
+
+// A "night" runs from noon to noon, so everything between an evening and the
+// next morning (and that afternoon's naps) is filed together.
+const NIGHT_START_HOUR = 12;
+
+export const MAX_LOG_ENTRIES_PER_NIGHT = 2000;
+export const MAX_LOGGED_NIGHTS = 7;
+
+const SIGNAL_PRECISION = 1000;
+
+export const DETECTION_ACTION_LABELS: Record<DetectionAction, string> = {
+  'none': 'Sin cambios',
+  'session-opened': 'Sesión iniciada',
+  'awakening-started': 'Posible despertar',
+  'interruption-recorded': 'Interrupción registrada',
+  'session-closed': 'Sesión cerrada',
+};
+
+// Local date of the evening the night belongs to, as YYYY-MM-DD
+export function getNightKey(date: Date): string {
+  const evening = new Date(date);
+  if (evening.getHours() < NIGHT_START_HOUR) {
+    evening.setDate(evening.getDate() - 1);
+  }
+
+  const month = (evening.getMonth() + 1).toString().padStart(2, '0');
+  const day = evening.getDate().toString().padStart(2, '0');
+  return `${evening.getFullYear()}-${month}-${day}`;
+}
+
+const round = (value: number): number => Math.round(value * SIGNAL_PRECISION) / SIGNAL_PRECISION;
+
+// Rounds the factors so a full night of entries stays small
+export function compactLogEntry(entry: DetectionLogEntry): DetectionLogEntry {
+  const signals: SleepSignalContributions = Object.fromEntries(
+    Object.entries(entry.signals).map(([signal, value]) => [signal, round(value)])
+  );
+
+  return {
+    ...entry,
+    inactivity: Math.round(entry.inactivity / 1000) * 1000,
+    signals,
+    probability: round(entry.probability),
+  };
+}
+
+export function groupEntriesByNight(entries: DetectionLogEntry[]): Map<string, DetectionLogEntry[]> {
+  const nights = new Map<string, DetectionLogEntry[]>();
+  entries.forEach(entry => {
+    const night = getNightKey(entry.at);
+    nights.set(night, [...(nights.get(night) ?? []), entry]);
+  });
+  return nights;
+}
+
+export function isThresholdMet(entry: DetectionLogEntry): boolean {
+  // Idle passes open a session above the threshold; in a session, falling
+  // below the wake threshold counts as being awake
+  return entry.inSession ? entry.probability < entry.threshold : entry.probability > entry.threshold;
+}
+
+export interface NightLogSummary {
+  passes: number;
+  sessionOpenedAt: Date | null;
+  peak: DetectionLogEntry | null; // highest probability while no session was open
+}
+
+export function summarizeNightLog(entries: DetectionLogEntry[]): NightLogSummary {
+  const opened = entries.find(entry => entry.action === 'session-opened');
+  const idle = entries.filter(entry => !entry.inSession);
+  const peak = idle.reduce<DetectionLogEntry | null>(
+    (best, entry) => (!best || entry.probability > best.probability ? entry : best),
+    null
+  );
+
+  return {
+    passes: entries.length,
+    sessionOpenedAt: opened ? opened.at : null,
+    peak,
+  };
+}
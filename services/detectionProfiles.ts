@@ -0,0 +1,59 @@
+import {
+  DetectionSensitivity,
+  DetectionThresholds,
+  MotionCalibration,
+  SleepSettings,
+} from '@/types/sleep';
+
+// Higher sensitivity opens sessions sooner: less inactivity required, more
+// motion tolerated as "still", and a lower probability needed.
+export const DETECTION_PROFILES: { [level in Exclude<DetectionSensitivity, 'custom'>]: DetectionThresholds } = {
+  low: {
+    inactivityThreshold: 20 * 60 * 1000, // 20 minutes
+    motionThreshold: 0.07,
+    sleepConfidenceThreshold: 0.85,
+  },
+  medium: {
+    inactivityThreshold: 15 * 60 * 1000, // 15 minutes
+    motionThreshold: 0.1,
+    sleepConfidenceThreshold: 0.8,
+  },
+  high: {
+    inactivityThreshold: 10 * 60 * 1000, // 10 minutes
+    motionThreshold: 0.14,
+    sleepConfidenceThreshold: 0.7,
+  },
+};
+
+// Where the motion threshold sits between the resting and in-hand levels
+const CALIBRATION_SPLIT = 0.25;
+const MIN_MOTION_THRESHOLD = 0.02;
+const MAX_MOTION_THRESHOLD = 0.5;
+
+export function resolveDetectionThresholds(settings: Partial<SleepSettings>): DetectionThresholds {
+  const sensitivity = settings.detectionSensitivity ?? 'medium';
+
+  if (sensitivity === 'custom') {
+    return settings.customThresholds ?? DETECTION_PROFILES.medium;
+  }
+
+  return DETECTION_PROFILES[sensitivity] ?? DETECTION_PROFILES.medium;
+}
+
+// Places the motion threshold just above the nightstand noise floor, a
+// quarter of the way towards the in-hand level. Timing thresholds keep the
+// medium profile.
+export function buildCalibratedThresholds(calibration: MotionCalibration): DetectionThresholds {
+  const { restLevel, handLevel } = calibration;
+
+  if (handLevel <= restLevel) {
+    throw new Error('In-hand motion must be higher than resting motion');
+  }
+
+  const motionThreshold = restLevel + (handLevel - restLevel) * CALIBRATION_SPLIT;
+
+  return {
+    ...DETECTION_PROFILES.medium,
+    motionThreshold: Math.max(MIN_MOTION_THRESHOLD, Math.min(MAX_MOTION_THRESHOLD, motionThreshold)),
+  };
+}
@@ -0,0 +1,195 @@
+import { DeviceMotion } from 'expo-sensors';
+import * as Battery from 'expo-battery';
+import { AppState, Platform } from 'react-native';
+import {
+  AppVisibility,
+  DetectionCheckpoint,
+  DetectionLogEntry,
+  DeviceMotionData,
+  MotionBaseline,
+  MotionPermissionStatus,
+  PowerState,
+  SessionActigraphy,
+  SessionOverlapPolicy,
+  SleepSession,
+  SleepSettings,
+  SmartAlarm,
+} from '@/types/sleep';
+import { StorageService } from './storage';
+import { BUILT_IN_SIGNALS, SleepSignal } from './sleepSignals';
+
+// Everything SleepDetectionService reads from the outside world goes through
+// these interfaces, so recorded nights can be replayed offline (see replay.ts).
+
+export interface DetectionClock {
+  now(): Date;
+}
+
+export interface DetectionScheduler {
+  setInterval(callback: () => void | Promise<void>, intervalMs: number): unknown;
+  clearInterval(handle: unknown): void;
+}
+
+export interface Subscription {
+  remove(): void;
+}
+
+export interface MotionSource {
+  getPermissionStatus(): Promise<MotionPermissionStatus>; // without prompting
+  requestPermissions(): Promise<boolean>;
+  subscribe(intervalMs: number, listener: (motion: DeviceMotionData) => void): Subscription;
+}
+
+export interface DeviceStateSource {
+  getPowerState(): Promise<PowerState>;
+  subscribePowerState(listener: (state: PowerState) => void): Subscription;
+  getAppState(): AppVisibility;
+  subscribeAppState(listener: (state: AppVisibility) => void): Subscription;
+}
+
+export interface DetectionStorage {
+  saveSleepSession(session: SleepSession, overlapPolicy?: SessionOverlapPolicy): Promise<SleepSession>;
+  saveSessionActigraphy(actigraphy: SessionActigraphy): Promise<void>;
+  setTrackingStatus(isTracking: boolean): Promise<void>;
+  getTrackingStatus(): Promise<boolean | null>; // null until tracking was first started or stopped
+  getSettings(): Promise<Partial<SleepSettings>>;
+  updateSettings(settings: Partial<SleepSettings>): Promise<void>;
+  getMotionBaseline(): Promise<MotionBaseline | null>;
+  saveMotionBaseline(baseline: MotionBaseline | null): Promise<void>;
+  saveDetectionCheckpoint(checkpoint: DetectionCheckpoint): Promise<void>;
+  getDetectionCheckpoint(): Promise<DetectionCheckpoint | null>;
+  clearDetectionCheckpoint(): Promise<void>;
+  saveSmartAlarm(alarm: SmartAlarm | null): Promise<void>;
+  getSmartAlarm(): Promise<SmartAlarm | null>;
+  appendDetectionLog(night: string, entries: DetectionLogEntry[]): Promise<void>;
+}
+
+export interface SleepDetectionDependencies {
+  clock: DetectionClock;
+  scheduler: DetectionScheduler;
+  motionSource: MotionSource;
+  deviceState: DeviceStateSource;
+  storage: DetectionStorage;
+  signals: SleepSignal[]; // providers fused into the sleep probability
+}
+
+const systemClock: DetectionClock = {
+  now: () => new Date(),
+};
+
+const timerScheduler: DetectionScheduler = {
+  setInterval: (callback, intervalMs) => setInterval(callback, intervalMs),
+  clearInterval: (handle) => clearInterval(handle as ReturnType<typeof setInterval>),
+};
+
+// DeviceMotion has a single update interval shared by every listener, so it
+// runs at the fastest rate any open subscription asked for, and drops back
+// when that subscription ends (e.g. calibration while tracking is sampling
+// slowly).
+const motionIntervals = new Set<{ intervalMs: number }>();
+
+const applyMotionInterval = (): void => {
+  if (motionIntervals.size === 0) return;
+  DeviceMotion.setUpdateInterval(Math.min(...Array.from(motionIntervals, entry => entry.intervalMs)));
+};
+
+// Motion is only available on native platforms; on web the service still
+// runs periodic detection, just without any samples.
+const deviceMotionSource: MotionSource = {
+  async getPermissionStatus() {
+    if (Platform.OS === 'web') return 'granted';
+
+    const { status, canAskAgain } = await DeviceMotion.getPermissionsAsync();
+    if (status === 'granted') return 'granted';
+    return canAskAgain ? 'requestable' : 'denied';
+  },
+
+  async requestPermissions() {
+    if (Platform.OS === 'web') return true;
+
+    const { status } = await DeviceMotion.requestPermissionsAsync();
+    return status === 'granted';
+  },
+
+  subscribe(intervalMs, listener) {
+    if (Platform.OS === 'web') return { remove: () => {} };
+
+    const entry = { intervalMs };
+    motionIntervals.add(entry);
+    applyMotionInterval();
+    const subscription = DeviceMotion.addListener((motionData) => {
+      listener({
+        timestamp: Date.now(),
+        acceleration: motionData.acceleration || { x: 0, y: 0, z: 0 },
+        rotation: motionData.rotation || { alpha: 0, beta: 0, gamma: 0 },
+      });
+    });
+
+    return {
+      remove: () => {
+        subscription.remove();
+        motionIntervals.delete(entry);
+        applyMotionInterval();
+      },
+    };
+  },
+};
+
+const toPowerState = (batteryState: Battery.BatteryState): PowerState => {
+  switch (batteryState) {
+    case Battery.BatteryState.CHARGING:
+    case Battery.BatteryState.FULL:
+      return 'charging';
+    case Battery.BatteryState.UNPLUGGED:
+      return 'unplugged';
+    default:
+      return 'unknown';
+  }
+};
+
+const toAppVisibility = (state: string): AppVisibility => {
+  if (state === 'active') return 'active';
+  if (state === 'inactive') return 'inactive';
+  return 'background';
+};
+
+const systemDeviceState: DeviceStateSource = {
+  async getPowerState() {
+    try {
+      return toPowerState(await Battery.getBatteryStateAsync());
+    } catch (error) {
+      console.error('Failed to read battery state:', error);
+      return 'unknown';
+    }
+  },
+
+  subscribePowerState(listener) {
+    try {
+      return Battery.addBatteryStateListener(({ batteryState }) => {
+        listener(toPowerState(batteryState));
+      });
+    } catch (error) {
+      console.error('Failed to subscribe to battery state:', error);
+      return { remove: () => {} };
+    }
+  },
+
+  getAppState() {
+    return toAppVisibility(AppState.currentState);
+  },
+
+  subscribeAppState(listener) {
+    return AppState.addEventListener('change', (state) => {
+      listener(toAppVisibility(state));
+    });
+  },
+};
+
+export const defaultDependencies: SleepDetectionDependencies = {
+  clock: systemClock,
+  scheduler: timerScheduler,
+  motionSource: deviceMotionSource,
+  deviceState: systemDeviceState,
+  storage: StorageService,
+  signals: BUILT_IN_SIGNALS,
+};
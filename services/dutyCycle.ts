@@ -0,0 +1,67 @@
+import { SamplingMode, SamplingProfile, SensorUsage } from '@/types/sleep';
+
+// With battery optimization on, the motion sensor only runs at full rate
+// when a state change is likely: around sleep onset, around waking and in
+// the smart alarm window. Sparser samples make per-epoch activity noisier, so
+// 'still' is only used once the user has been motionless for a while.
+export const SAMPLING_PROFILES: Record<SamplingMode, SamplingProfile> = {
+  continuous: { motionInterval: 1000, detectionInterval: 30 * 1000 },
+  transition: { motionInterval: 1000, detectionInterval: 30 * 1000 },
+  awake: { motionInterval: 5000, detectionInterval: 60 * 1000 },
+  still: { motionInterval: 15 * 1000, detectionInterval: 60 * 1000 },
+};
+
+const FULL_RATE_INTERVAL = SAMPLING_PROFILES.continuous.motionInterval;
+
+// Sleep probability above which an awake user may be about to fall asleep
+const ONSET_PROBABILITY = 0.4;
+
+// Stillness needed inside a session before sampling drops to the lowest rate
+const STILLNESS_DURATION = 30 * 60 * 1000; // 30 minutes
+
+export interface SamplingContext {
+  batteryOptimized: boolean;
+  sleepProbability: number;
+  inactivityDuration: number;
+  inSession: boolean;
+  possiblyAwake: boolean; // an awakening is in progress inside the session
+  inAlarmWindow: boolean;
+}
+
+export function selectSamplingMode(context: SamplingContext): SamplingMode {
+  if (!context.batteryOptimized) return 'continuous';
+  if (context.inAlarmWindow) return 'transition';
+
+  if (context.inSession) {
+    if (context.possiblyAwake) return 'transition';
+    return context.inactivityDuration >= STILLNESS_DURATION ? 'still' : 'transition';
+  }
+
+  return context.sleepProbability >= ONSET_PROBABILITY ? 'transition' : 'awake';
+}
+
+export function createSensorUsage(): SensorUsage {
+  return { trackedTime: 0, sensorOnTime: 0, modeDurations: {} };
+}
+
+// Sensor-on time is expressed as the equivalent time at the full 1 s rate,
+// so a night sampled every 15 s counts a fifteenth of its length.
+export function addSensorUsage(usage: SensorUsage, mode: SamplingMode, elapsed: number): SensorUsage {
+  if (elapsed <= 0) return usage;
+
+  const { motionInterval } = SAMPLING_PROFILES[mode];
+  return {
+    trackedTime: usage.trackedTime + elapsed,
+    sensorOnTime: usage.sensorOnTime + elapsed * (FULL_RATE_INTERVAL / motionInterval),
+    modeDurations: {
+      ...usage.modeDurations,
+      [mode]: (usage.modeDurations[mode] ?? 0) + elapsed,
+    },
+  };
+}
+
+// Fraction of sensor time saved compared with sampling at full rate all night
+export function getSensorSavings(usage: SensorUsage): number {
+  if (usage.trackedTime <= 0) return 0;
+  return Math.max(0, 1 - usage.sensorOnTime / usage.trackedTime);
+}
@@ -0,0 +1,207 @@
+import {
+  JetLagDayProgress,
+  JetLagPhase,
+  JetLagPlanDay,
+  JetLagTrip,
+  SleepSession,
+  SleepWindow,
+} from '@/types/sleep';
+import { fromZonedTime, getUtcOffset, getZonedDateParts } from './timeZones';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// The body clock moves about an hour a day forwards and a bit more
+// backwards. Eastward trips beyond the limit are easier to take the long
+// way round, by delaying.
+export const JET_LAG_RULES = {
+  preTripDays: 3,
+  preTripShift: 60, // minutes per day before departure
+  advancePerDay: 60,
+  delayPerDay: 90,
+  maxAdvance: 9 * 60,
+  lightWindow: 2 * 60, // morning light, from wake time
+  eveningLightWindow: 3 * 60, // evening light, up to bedtime
+  matchWindow: 6 * 60 * 60 * 1000, // sessions further from the plan are not matched
+};
+
+export const JET_LAG_PHASE_LABELS: Record<JetLagPhase, string> = {
+  'pre-trip': 'Antes del viaje',
+  'arrival': 'Llegada',
+  'adapting': 'Adaptación',
+  'adapted': 'Adaptado',
+};
+
+const wrapMinutes = (minutes: number): number =>
+  ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+// Signed difference folded into (-12h, 12h]
+const foldMinutes = (minutes: number): number => {
+  const wrapped = wrapMinutes(minutes);
+  return wrapped > MINUTES_PER_DAY / 2 ? wrapped - MINUTES_PER_DAY : wrapped;
+};
+
+const addDays = (dayKey: string, days: number): string => {
+  const [year, month, day] = dayKey.split('-').map(part => parseInt(part, 10));
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return date.toISOString().slice(0, 10);
+};
+
+const shiftWindow = (window: SleepWindow, minutes: number): SleepWindow => ({
+  start: wrapMinutes(window.start + minutes),
+  end: wrapMinutes(window.end + minutes),
+});
+
+// Minutes the destination clock is ahead of the origin (negative when
+// behind), measured on the departure day
+export function getTimeZoneDifference(trip: JetLagTrip): number {
+  const departure = fromZonedTime(trip.departureDate, 12 * 60, trip.originTimeZone);
+  return foldMinutes(
+    getUtcOffset(departure, trip.destinationTimeZone) - getUtcOffset(departure, trip.originTimeZone)
+  );
+}
+
+export interface JetLagShift {
+  direction: 'advance' | 'delay';
+  minutes: number; // how far the body clock has to move
+}
+
+export function getRequiredShift(trip: JetLagTrip): JetLagShift | null {
+  const difference = getTimeZoneDifference(trip);
+  if (difference === 0) return null;
+
+  if (difference > 0 && difference <= JET_LAG_RULES.maxAdvance) {
+    return { direction: 'advance', minutes: difference };
+  }
+  return { direction: 'delay', minutes: difference > 0 ? MINUTES_PER_DAY - difference : -difference };
+}
+
+// Advancing wants morning light and a dark evening; delaying the opposite
+function getLightAdvice(sleep: SleepWindow, direction: JetLagShift['direction']) {
+  const morning = { start: sleep.end, end: wrapMinutes(sleep.end + JET_LAG_RULES.lightWindow) };
+  const evening = { start: wrapMinutes(sleep.start - JET_LAG_RULES.eveningLightWindow), end: sleep.start };
+  return direction === 'advance'
+    ? { seekLight: morning, avoidLight: evening }
+    : { seekLight: evening, avoidLight: morning };
+}
+
+// Day-by-day schedule that moves the usual sleep window a little each day,
+// starting a few days before departure, until it matches destination time.
+// Times before departure are in the origin zone, afterwards in the
+// destination zone; the user is taken to arrive on the departure date.
+export function buildJetLagPlan(trip: JetLagTrip): JetLagPlanDay[] {
+  const shift = getRequiredShift(trip);
+  if (!shift) return [];
+
+  const difference = getTimeZoneDifference(trip);
+  const sign = shift.direction === 'advance' ? -1 : 1;
+  const plan: JetLagPlanDay[] = [];
+  const preTripDays = Math.min(
+    JET_LAG_RULES.preTripDays,
+    Math.ceil(shift.minutes / JET_LAG_RULES.preTripShift)
+  );
+  let progress = 0;
+
+  for (let offset = -preTripDays; ; offset++) {
+    const isPreTrip = offset < 0;
+    const date = addDays(trip.departureDate, offset);
+    if (!isPreTrip && trip.returnDate && date > trip.returnDate) break;
+
+    const dailyShift = isPreTrip
+      ? JET_LAG_RULES.preTripShift
+      : shift.direction === 'advance' ? JET_LAG_RULES.advancePerDay : JET_LAG_RULES.delayPerDay;
+    progress = Math.min(shift.minutes, progress + dailyShift);
+
+    // Body-clock sleep window in origin time, then read on the local clock
+    const originSleep = shiftWindow(trip.usualSleep, sign * progress);
+    const sleep = isPreTrip ? originSleep : shiftWindow(originSleep, difference);
+    const adapted = progress >= shift.minutes;
+
+    let phase: JetLagPhase = 'adapting';
+    if (isPreTrip) {
+      phase = 'pre-trip';
+    } else if (offset === 0) {
+      phase = 'arrival';
+    } else if (adapted) {
+      phase = 'adapted';
+    }
+
+    plan.push({
+      date,
+      timeZone: isPreTrip ? trip.originTimeZone : trip.destinationTimeZone,
+      phase,
+      sleep,
+      ...(adapted && !isPreTrip
+        ? { seekLight: null, avoidLight: null }
+        : getLightAdvice(sleep, shift.direction)),
+    });
+
+    if (adapted && !isPreTrip) break;
+  }
+
+  return plan;
+}
+
+// Bedtimes before noon belong to the night that started the evening before
+export function getPlannedBedtime(day: JetLagPlanDay): Date {
+  const date = day.sleep.start < 12 * 60 ? addDays(day.date, 1) : day.date;
+  return fromZonedTime(date, day.sleep.start, day.timeZone);
+}
+
+// The span tracked nights can fall in, so only those sessions are loaded
+export function getJetLagPlanRange(plan: JetLagPlanDay[]): { start: Date; end: Date } | null {
+  if (plan.length === 0) return null;
+
+  return {
+    start: new Date(getPlannedBedtime(plan[0]).getTime() - JET_LAG_RULES.matchWindow),
+    end: new Date(getPlannedBedtime(plan[plan.length - 1]).getTime() + JET_LAG_RULES.matchWindow),
+  };
+}
+
+// Matches main sleep to each planned night
+export function trackJetLagPlan(plan: JetLagPlanDay[], sessions: SleepSession[]): JetLagDayProgress[] {
+  const mainSleep = sessions.filter(session => session.kind !== 'nap' && session.wakeTime);
+
+  return plan.map(day => {
+    const plannedBedtime = getPlannedBedtime(day);
+    const closest = mainSleep.reduce<SleepSession | null>((best, session) => {
+      const distance = Math.abs(session.bedtime.getTime() - plannedBedtime.getTime());
+      if (distance > JET_LAG_RULES.matchWindow) return best;
+      return !best || distance < Math.abs(best.bedtime.getTime() - plannedBedtime.getTime()) ? session : best;
+    }, null);
+
+    return {
+      day,
+      plannedBedtime,
+      actualBedtime: closest ? closest.bedtime : null,
+      deviation: closest ? Math.round((closest.bedtime.getTime() - plannedBedtime.getTime()) / (60 * 1000)) : null,
+    };
+  });
+}
+
+export interface JetLagAdaptation {
+  adaptation: number; // 0-1, how much of the shift the latest night shows
+  remaining: number; // minutes still between the latest bedtime and the usual one on destination time
+  lastNight: Date;
+}
+
+// Compares the latest tracked night at the destination with the usual
+// bedtime on destination time
+export function getJetLagAdaptation(
+  trip: JetLagTrip,
+  progress: JetLagDayProgress[]
+): JetLagAdaptation | null {
+  const shift = getRequiredShift(trip);
+  const latest = progress
+    .filter(entry => entry.day.phase !== 'pre-trip' && entry.actualBedtime)
+    .pop();
+  if (!shift || !latest?.actualBedtime) return null;
+
+  const { hour, minute } = getZonedDateParts(latest.actualBedtime, trip.destinationTimeZone);
+  const remaining = Math.abs(foldMinutes(hour * 60 + minute - trip.usualSleep.start));
+
+  return {
+    adaptation: Math.max(0, Math.min(1, 1 - remaining / shift.minutes)),
+    remaining,
+    lastNight: latest.actualBedtime,
+  };
+}
@@ -0,0 +1,96 @@
+import { DetectionLogEntry, SessionActigraphy, SleepSession } from '@/types/sleep';
+import { SessionRange, SleepRecordName, SleepRecords, SleepRepository, isInSessionRange } from './sleepRepository';
+
+export interface SleepRepositoryFixtures {
+  sessions?: SleepSession[];
+  records?: Partial<SleepRecords>;
+}
+
+const copy = <T>(value: T): T =>
+  (typeof value === 'object' && value !== null ? { ...value } : value);
+
+// Keeps everything in memory, for tests, fixtures and web previews. Nothing
+// survives a reload. Objects are copied in and out so callers can't change
+// stored data by holding on to them, as with the persistent backends.
+export class InMemorySleepRepository implements SleepRepository {
+  private sessions = new Map<string, SleepSession>();
+  private actigraphy = new Map<string, SessionActigraphy>();
+  private detectionLogs = new Map<string, DetectionLogEntry[]>();
+  private records: Partial<SleepRecords> = {};
+
+  constructor(fixtures: SleepRepositoryFixtures = {}) {
+    fixtures.sessions?.forEach(session => this.sessions.set(session.id, { ...session }));
+    this.records = { ...fixtures.records };
+  }
+
+  async migrate(): Promise<void> {}
+
+  async saveSession(session: SleepSession): Promise<void> {
+    this.sessions.set(session.id, { ...session });
+  }
+
+  async getSession(id: string): Promise<SleepSession | null> {
+    const session = this.sessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  async getSessions(range?: SessionRange): Promise<SleepSession[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => isInSessionRange(session, range))
+      .map(session => ({ ...session }));
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async saveActigraphy(actigraphy: SessionActigraphy): Promise<void> {
+    this.actigraphy.set(actigraphy.sessionId, { ...actigraphy });
+  }
+
+  async getActigraphy(sessionId: string): Promise<SessionActigraphy | null> {
+    const actigraphy = this.actigraphy.get(sessionId);
+    return actigraphy ? { ...actigraphy } : null;
+  }
+
+  async deleteActigraphy(sessionId: string): Promise<void> {
+    this.actigraphy.delete(sessionId);
+  }
+
+  async saveDetectionLog(night: string, entries: DetectionLogEntry[]): Promise<void> {
+    this.detectionLogs.set(night, [...entries]);
+  }
+
+  async getDetectionLog(night: string): Promise<DetectionLogEntry[]> {
+    return [...(this.detectionLogs.get(night) ?? [])];
+  }
+
+  async getDetectionLogNights(): Promise<string[]> {
+    return Array.from(this.detectionLogs.keys()).sort().reverse();
+  }
+
+  async deleteDetectionLogs(nights: string[]): Promise<void> {
+    nights.forEach(night => this.detectionLogs.delete(night));
+  }
+
+  async saveRecord<K extends SleepRecordName>(name: K, value: SleepRecords[K] | null): Promise<void> {
+    if (value === null) {
+      delete this.records[name];
+    } else {
+      this.records[name] = copy(value);
+    }
+  }
+
+  async getRecord<K extends SleepRecordName>(name: K): Promise<SleepRecords[K] | null> {
+    const value = this.records[name] as SleepRecords[K] | undefined;
+    return value === undefined ? null : copy(value);
+  }
+
+  async clear(): Promise<void> {
+    const trackingStatus = this.records.trackingStatus;
+    this.sessions.clear();
+    this.actigraphy.clear();
+    this.detectionLogs.clear();
+    this.records = trackingStatus === undefined ? {} : { trackingStatus };
+  }
+}
@@ -0,0 +1,58 @@
+import { ActivityEpoch, MotionBaseline } from '@/types/sleep';
+
+// Nights needed before the learned baseline replaces the fixed threshold
+export const BASELINE_NIGHTS = 3;
+
+// Shorter sessions (naps, false starts) say little about the resting noise
+const MIN_EPOCHS_PER_NIGHT = 4 * 60 * 2; // 4 hours of 30-second epochs
+
+const NOISE_FLOOR_PERCENTILE = 0.1;
+const MOVEMENT_PERCENTILE = 0.9;
+
+const percentile = (values: number[], fraction: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.floor(fraction * sorted.length));
+  return sorted[index];
+};
+
+export function isBaselineReady(baseline: MotionBaseline | null): boolean {
+  return !!baseline && baseline.nightsObserved >= BASELINE_NIGHTS;
+}
+
+// Folds one night of activity epochs into the running baseline. Returns the
+// baseline unchanged once learning is complete or if the night is too short.
+export function learnFromNight(
+  baseline: MotionBaseline | null,
+  epochs: ActivityEpoch[],
+  now: Date
+): MotionBaseline | null {
+  if (isBaselineReady(baseline) || epochs.length < MIN_EPOCHS_PER_NIGHT) {
+    return baseline;
+  }
+
+  const activity = epochs.map(epoch => epoch.activity);
+  const noiseFloor = percentile(activity, NOISE_FLOOR_PERCENTILE);
+  const movementLevel = percentile(activity, MOVEMENT_PERCENTILE);
+
+  const nights = baseline?.nightsObserved ?? 0;
+  const average = (previous: number | undefined, current: number) =>
+    ((previous ?? 0) * nights + current) / (nights + 1);
+
+  return {
+    nightsObserved: nights + 1,
+    noiseFloor: average(baseline?.noiseFloor, noiseFloor),
+    movementLevel: average(baseline?.movementLevel, movementLevel),
+    updatedAt: now,
+  };
+}
+
+// Maps a mean motion magnitude to 0-1, where 0 is this device's resting
+// noise and 1 is its typical in-bed movement.
+export function normalizeMotionLevel(magnitude: number, baseline: MotionBaseline): number {
+  const range = baseline.movementLevel - baseline.noiseFloor;
+  if (range <= 0) {
+    return magnitude > baseline.noiseFloor ? 1 : 0;
+  }
+
+  return Math.max(0, Math.min((magnitude - baseline.noiseFloor) / range, 1));
+}
@@ -0,0 +1,31 @@
+import { SleepSchedule, SleepSession, SleepSessionKind } from '@/types/sleep';
+import { DEFAULT_SLEEP_SCHEDULE, isInNapTime } from './sleepSchedule';
+
+// Daytime sleep is short and happens with weaker time-of-day evidence, so it
+// gets its own opening and closing rules.
+export const NAP_RULES = {
+  // The nap rules apply from a while before the scheduled nap time until
+  // well after it, since naps rarely start on time
+  windowLead: 2 * 60 * 60 * 1000, // 2 hours
+  windowTrail: 3 * 60 * 60 * 1000, // 3 hours
+  confidenceThreshold: 0.65,
+  minInactivity: 20 * 60 * 1000, // 20 minutes
+  sustainedWake: 5 * 60 * 1000, // 5 minutes
+  maxDuration: 3 * 60 * 60 * 1000, // 3 hours
+};
+
+export function isNapWindow(date: Date, schedule: SleepSchedule = DEFAULT_SLEEP_SCHEDULE): boolean {
+  return isInNapTime(schedule, date, NAP_RULES.windowLead, NAP_RULES.windowTrail);
+}
+
+export function classifySessionKind(
+  bedtime: Date,
+  duration: number,
+  schedule: SleepSchedule = DEFAULT_SLEEP_SCHEDULE
+): SleepSessionKind {
+  return isNapWindow(bedtime, schedule) && duration <= NAP_RULES.maxDuration ? 'nap' : 'main';
+}
+
+export function isNap(session: SleepSession): boolean {
+  return session.kind === 'nap';
+}
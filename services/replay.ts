@@ -0,0 +1,435 @@
+import {
+  AlarmEvent,
+  AppVisibility,
+  DetectionCheckpoint,
+  DetectionLogEntry,
+  DeviceMotionData,
+  MotionBaseline,
+  MotionPermissionStatus,
+  PowerState,
+  SessionActigraphy,
+  SessionOverlapPolicy,
+  SleepSession,
+  SleepSettings,
+  SleepDetectionState,
+  SmartAlarm,
+} from '@/types/sleep';
+import { SleepDetectionService } from './sleepDetection';
+import {
+  DetectionClock,
+  DetectionScheduler,
+  DetectionStorage,
+  DeviceStateSource,
+  MotionSource,
+  Subscription,
+} from './detectionSources';
+import { BUILT_IN_SIGNALS, SignalFusionOptions, SleepSignal } from './sleepSignals';
+import { InMemorySleepRepository } from './memoryRepository';
+import { storeSleepSession } from './sessionWrites';
+
+// Deterministic replay of recorded motion traces through SleepDetectionService.
+// Everything here is driven by the trace timestamps, so a whole night runs in
+// a fraction of a second and always produces the same sessions.
+
+export class ReplayClock implements DetectionClock {
+  private current: number;
+
+  constructor(startTime: number) {
+    this.current = startTime;
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(time: number): void {
+    this.current = time;
+  }
+}
+
+interface ReplayTimer {
+  callback: () => void | Promise<void>;
+  intervalMs: number;
+  nextRun: number;
+}
+
+export class ReplayScheduler implements DetectionScheduler {
+  private timers = new Map<number, ReplayTimer>();
+  private nextId = 1;
+
+  constructor(private clock: ReplayClock) {}
+
+  setInterval(callback: () => void | Promise<void>, intervalMs: number): number {
+    const id = this.nextId++;
+    this.timers.set(id, {
+      callback,
+      intervalMs,
+      nextRun: this.clock.now().getTime() + intervalMs,
+    });
+    return id;
+  }
+
+  clearInterval(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  // Runs every timer that falls due up to `time`, in chronological order,
+  // waiting for each callback before moving on.
+  async advanceTo(time: number): Promise<void> {
+    while (true) {
+      let due: ReplayTimer | null = null;
+      for (const timer of Array.from(this.timers.values())) {
+        if (timer.nextRun <= time && (!due || timer.nextRun < due.nextRun)) {
+          due = timer;
+        }
+      }
+      if (!due) break;
+
+      this.clock.set(due.nextRun);
+      due.nextRun += due.intervalMs;
+      await due.callback();
+    }
+
+    this.clock.set(time);
+  }
+}
+
+interface ReplayMotionListener {
+  intervalMs: number;
+  lastDelivered: number;
+  listener: (motion: DeviceMotionData) => void;
+}
+
+// Recorded traces have some timestamp jitter, so a sample arriving slightly
+// early still counts as on time.
+const SAMPLE_INTERVAL_TOLERANCE = 0.9;
+
+// Delivers trace samples no more often than each subscriber's interval, the
+// way the sensor would when duty-cycled.
+export class ReplayMotionSource implements MotionSource {
+  private listeners = new Set<ReplayMotionListener>();
+
+  constructor(private permissionGranted = true) {}
+
+  async getPermissionStatus(): Promise<MotionPermissionStatus> {
+    return this.permissionGranted ? 'granted' : 'denied';
+  }
+
+  async requestPermissions(): Promise<boolean> {
+    return this.permissionGranted;
+  }
+
+  subscribe(intervalMs: number, listener: (motion: DeviceMotionData) => void): Subscription {
+    const entry = { intervalMs, lastDelivered: -Infinity, listener };
+    this.listeners.add(entry);
+    return { remove: () => this.listeners.delete(entry) };
+  }
+
+  emit(motion: DeviceMotionData): void {
+    Array.from(this.listeners).forEach(entry => {
+      if (motion.timestamp - entry.lastDelivered < entry.intervalMs * SAMPLE_INTERVAL_TOLERANCE) return;
+      entry.lastDelivered = motion.timestamp;
+      entry.listener(motion);
+    });
+  }
+}
+
+export class ReplayDeviceState implements DeviceStateSource {
+  private powerListeners = new Set<(state: PowerState) => void>();
+  private appStateListeners = new Set<(state: AppVisibility) => void>();
+
+  constructor(
+    private powerState: PowerState = 'unplugged',
+    private appState: AppVisibility = 'background'
+  ) {}
+
+  async getPowerState(): Promise<PowerState> {
+    return this.powerState;
+  }
+
+  subscribePowerState(listener: (state: PowerState) => void): Subscription {
+    this.powerListeners.add(listener);
+    return { remove: () => this.powerListeners.delete(listener) };
+  }
+
+  getAppState(): AppVisibility {
+    return this.appState;
+  }
+
+  subscribeAppState(listener: (state: AppVisibility) => void): Subscription {
+    this.appStateListeners.add(listener);
+    return { remove: () => this.appStateListeners.delete(listener) };
+  }
+
+  setPowerState(state: PowerState): void {
+    this.powerState = state;
+    this.powerListeners.forEach(listener => listener(state));
+  }
+
+  setAppState(state: AppVisibility): void {
+    this.appState = state;
+    this.appStateListeners.forEach(listener => listener(state));
+  }
+}
+
+// Sessions are saved through the same validation and overlap handling as
+// StorageService, so a replay rejects and flags what the app would
+export class InMemoryDetectionStorage implements DetectionStorage {
+  readonly repository: InMemorySleepRepository;
+  checkpoint: DetectionCheckpoint | null = null;
+  smartAlarm: SmartAlarm | null = null;
+  detectionLog: DetectionLogEntry[] = []; // unbounded, all nights together
+  private tracking: boolean | null = null;
+
+  constructor(
+    private settings: Partial<SleepSettings> = {},
+    public motionBaseline: MotionBaseline | null = null,
+    sessions: SleepSession[] = []
+  ) {
+    this.repository = new InMemorySleepRepository({ sessions });
+  }
+
+  async saveSleepSession(
+    session: SleepSession,
+    overlapPolicy: SessionOverlapPolicy = 'reject'
+  ): Promise<SleepSession> {
+    return storeSleepSession(this.repository, session, overlapPolicy);
+  }
+
+  async saveSessionActigraphy(actigraphy: SessionActigraphy): Promise<void> {
+    await this.repository.saveActigraphy(actigraphy);
+  }
+
+  // Every stored session in bedtime order, including any the replay started with
+  async getSessions(): Promise<SleepSession[]> {
+    const sessions = await this.repository.getSessions();
+    return sessions.sort((a, b) => a.bedtime.getTime() - b.bedtime.getTime());
+  }
+
+  async getActigraphy(): Promise<SessionActigraphy[]> {
+    const sessions = await this.getSessions();
+    const actigraphy = await Promise.all(sessions.map(session => this.repository.getActigraphy(session.id)));
+    return actigraphy.filter((entry): entry is SessionActigraphy => entry !== null);
+  }
+
+  async setTrackingStatus(isTracking: boolean): Promise<void> {
+    this.tracking = isTracking;
+  }
+
+  async getTrackingStatus(): Promise<boolean | null> {
+    return this.tracking;
+  }
+
+  async getSettings(): Promise<Partial<SleepSettings>> {
+    return this.settings;
+  }
+
+  async updateSettings(settings: Partial<SleepSettings>): Promise<void> {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  async getMotionBaseline(): Promise<MotionBaseline | null> {
+    return this.motionBaseline;
+  }
+
+  async saveMotionBaseline(baseline: MotionBaseline | null): Promise<void> {
+    this.motionBaseline = baseline;
+  }
+
+  async saveDetectionCheckpoint(checkpoint: DetectionCheckpoint): Promise<void> {
+    this.checkpoint = checkpoint;
+  }
+
+  async getDetectionCheckpoint(): Promise<DetectionCheckpoint | null> {
+    return this.checkpoint;
+  }
+
+  async clearDetectionCheckpoint(): Promise<void> {
+    this.checkpoint = null;
+  }
+
+  async saveSmartAlarm(alarm: SmartAlarm | null): Promise<void> {
+    this.smartAlarm = alarm;
+  }
+
+  async getSmartAlarm(): Promise<SmartAlarm | null> {
+    return this.smartAlarm;
+  }
+
+  async appendDetectionLog(_night: string, entries: DetectionLogEntry[]): Promise<void> {
+    this.detectionLog.push(...entries);
+  }
+}
+
+const toNumber = (value: unknown): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const toSample = (raw: any): DeviceMotionData => {
+  const timestamp = typeof raw.timestamp === 'string' && isNaN(Number(raw.timestamp))
+    ? new Date(raw.timestamp).getTime()
+    : toNumber(raw.timestamp);
+
+  if (!Number.isFinite(timestamp) || timestamp <= 0) {
+    throw new Error(`Invalid motion sample timestamp: ${raw.timestamp}`);
+  }
+
+  return {
+    timestamp,
+    acceleration: {
+      x: toNumber(raw.acceleration?.x ?? raw.x),
+      y: toNumber(raw.acceleration?.y ?? raw.y),
+      z: toNumber(raw.acceleration?.z ?? raw.z),
+    },
+    rotation: {
+      alpha: toNumber(raw.rotation?.alpha ?? raw.alpha),
+      beta: toNumber(raw.rotation?.beta ?? raw.beta),
+      gamma: toNumber(raw.rotation?.gamma ?? raw.gamma),
+    },
+  };
+};
+
+const parseCsvTrace = (contents: string): any[] => {
+  const lines = contents.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(column => column.trim());
+  if (!header.includes('timestamp')) {
+    throw new Error('Motion trace CSV must have a "timestamp" column');
+  }
+
+  return lines.slice(1).map(line => {
+    const values = line.split(',');
+    const row: { [key: string]: string } = {};
+    header.forEach((column, index) => {
+      row[column] = values[index]?.trim();
+    });
+    return row;
+  });
+};
+
+// Accepts either a JSON array of DeviceMotionData (or `{ samples: [...] }`),
+// or a CSV with a header row of timestamp,x,y,z[,alpha,beta,gamma].
+export function parseMotionTrace(contents: string): DeviceMotionData[] {
+  const trimmed = contents.trim();
+  let rawSamples: any[];
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    rawSamples = Array.isArray(parsed) ? parsed : parsed.samples;
+    if (!Array.isArray(rawSamples)) {
+      throw new Error('Motion trace JSON must be an array of samples');
+    }
+  } else {
+    rawSamples = parseCsvTrace(trimmed);
+  }
+
+  return rawSamples
+    .map(toSample)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export interface DeviceStateEvent {
+  timestamp: number;
+  powerState?: PowerState;
+  appState?: AppVisibility;
+}
+
+export interface ReplayOptions {
+  startTime?: number; // defaults to the first sample
+  endTime?: number; // defaults to the last sample
+  permissionGranted?: boolean;
+  initialPowerState?: PowerState; // defaults to 'unplugged'
+  initialAppState?: AppVisibility; // defaults to 'background'
+  deviceEvents?: DeviceStateEvent[];
+  settings?: Partial<SleepSettings>; // e.g. detectionSensitivity
+  motionBaseline?: MotionBaseline | null;
+  sessions?: SleepSession[]; // already stored, e.g. a manual entry for the night
+  checkpoint?: DetectionCheckpoint; // simulates a restart mid-night
+  smartAlarm?: SmartAlarm;
+  signals?: SleepSignal[]; // defaults to the built-in providers
+  signalFusion?: Partial<SignalFusionOptions>;
+}
+
+export interface ReplayResult {
+  sessions: SleepSession[];
+  actigraphy: SessionActigraphy[];
+  motionBaseline: MotionBaseline | null;
+  checkpoint: DetectionCheckpoint | null;
+  alarmEvents: AlarmEvent[];
+  detectionLog: DetectionLogEntry[];
+  openSession: SleepSession | null;
+  finalState: SleepDetectionState;
+}
+
+export async function replayMotionTrace(
+  samples: DeviceMotionData[],
+  options: ReplayOptions = {}
+): Promise<ReplayResult> {
+  const ordered = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+  const startTime = options.startTime ?? ordered[0]?.timestamp;
+  if (startTime === undefined) {
+    throw new Error('Cannot replay an empty motion trace without a start time');
+  }
+  const endTime = options.endTime ?? ordered[ordered.length - 1]?.timestamp ?? startTime;
+
+  const clock = new ReplayClock(startTime);
+  const scheduler = new ReplayScheduler(clock);
+  const motionSource = new ReplayMotionSource(options.permissionGranted ?? true);
+  const deviceState = new ReplayDeviceState(options.initialPowerState, options.initialAppState);
+  const storage = new InMemoryDetectionStorage(options.settings, options.motionBaseline, options.sessions);
+  storage.checkpoint = options.checkpoint ?? null;
+  storage.smartAlarm = options.smartAlarm ?? null;
+  const service = new SleepDetectionService({
+    clock,
+    scheduler,
+    motionSource,
+    deviceState,
+    storage,
+    signals: options.signals ?? BUILT_IN_SIGNALS,
+  });
+  if (options.signalFusion) {
+    service.configureSignalFusion(options.signalFusion);
+  }
+
+  const events = [...(options.deviceEvents ?? [])].sort((a, b) => a.timestamp - b.timestamp);
+  let eventIndex = 0;
+  const applyEventsUntil = async (time: number) => {
+    while (eventIndex < events.length && events[eventIndex].timestamp <= time) {
+      const event = events[eventIndex++];
+      await scheduler.advanceTo(Math.max(event.timestamp, startTime));
+      if (event.powerState) deviceState.setPowerState(event.powerState);
+      if (event.appState) deviceState.setAppState(event.appState);
+    }
+  };
+
+  const alarmEvents: AlarmEvent[] = [];
+  service.addAlarmListener(event => alarmEvents.push(event));
+
+  await service.startTracking();
+
+  for (const sample of ordered) {
+    if (sample.timestamp < startTime || sample.timestamp > endTime) continue;
+    await applyEventsUntil(sample.timestamp);
+    await scheduler.advanceTo(sample.timestamp);
+    motionSource.emit(sample);
+  }
+  await applyEventsUntil(endTime);
+  await scheduler.advanceTo(endTime);
+
+  const finalState = service.getDetectionState();
+  const openSession = service.getCurrentSession();
+  await service.stopTracking();
+
+  return {
+    sessions: await storage.getSessions(),
+    actigraphy: await storage.getActigraphy(),
+    motionBaseline: storage.motionBaseline,
+    checkpoint: storage.checkpoint,
+    alarmEvents,
+    detectionLog: storage.detectionLog,
+    openSession,
+    finalState,
+  };
+}
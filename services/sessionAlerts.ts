@@ -0,0 +1,41 @@
+import { Alert } from 'react-native';
+import { SessionOverlapPolicy, SleepSession } from '@/types/sleep';
+import { StorageService } from './storage';
+import { SESSION_ISSUE_LABELS, SessionValidationError } from './sessionValidation';
+
+// Tells the user why a session couldn't be saved
+export function alertSessionIssues(error: SessionValidationError): void {
+  Alert.alert(
+    'Sesión Inválida',
+    error.issues.map(issue => SESSION_ISSUE_LABELS[issue.code]).join('\n')
+  );
+}
+
+// Saves a session edited by the user. Resolves to the session as stored, or
+// null if it wasn't saved. When it overlaps another session the user chooses
+// how to keep them; any other issue is shown to them.
+export const saveSessionWithAlerts = (
+  session: SleepSession,
+  overlapPolicy: SessionOverlapPolicy = 'reject'
+): Promise<SleepSession | null> =>
+  StorageService.saveSleepSession(session, overlapPolicy).catch((error) => {
+    if (!(error instanceof SessionValidationError)) throw error;
+
+    if (!error.isOverlapOnly) {
+      alertSessionIssues(error);
+      return null;
+    }
+
+    return new Promise<SleepSession | null>((resolve) => {
+      Alert.alert(
+        'Sesiones Solapadas',
+        'Esta sesión coincide con otra ya registrada, por ejemplo una detectada automáticamente. Puedes combinarlas en una sola o mantener ambas.',
+        [
+          { text: 'Cancelar', style: 'cancel', onPress: () => resolve(null) },
+          { text: 'Mantener Ambas', onPress: () => resolve(saveSessionWithAlerts(session, 'keep-both')) },
+          { text: 'Combinar', onPress: () => resolve(saveSessionWithAlerts(session, 'merge')) },
+        ],
+        { cancelable: true, onDismiss: () => resolve(null) }
+      );
+    });
+  });
@@ -0,0 +1,140 @@
+import { SessionValidationIssue, SleepSession } from '@/types/sleep';
+
+// Times are edited in minutes and a wake time is stamped a moment after the
+// duration is measured, so small differences are not a mismatch
+const DURATION_TOLERANCE = 60 * 1000; // 1 minute
+
+// Overlaps are only looked for among sessions that started this long before
+export const MAX_SESSION_LENGTH = 24 * 60 * 60 * 1000; // 24 hours
+
+export const SESSION_ISSUE_LABELS: Record<SessionValidationIssue['code'], string> = {
+  'wake-before-bedtime': 'La hora de despertar es anterior a la de acostarse.',
+  'duration-mismatch': 'La duración no coincide con las horas de la sesión.',
+  'quality-out-of-range': 'La calidad debe estar entre 0 y 100.',
+  'overlap': 'Coincide con otra sesión ya registrada.',
+};
+
+export class SessionValidationError extends Error {
+  constructor(public readonly issues: SessionValidationIssue[]) {
+    super(`Invalid sleep session: ${issues.map(issue => issue.code).join(', ')}`);
+    this.name = 'SessionValidationError';
+  }
+
+  // Overlaps can be resolved by saving again with another policy; the other
+  // issues need the session itself fixed
+  get isOverlapOnly(): boolean {
+    return this.issues.every(issue => issue.code === 'overlap');
+  }
+
+  get overlappingSessions(): SleepSession[] {
+    return this.issues.flatMap(issue => (issue.code === 'overlap' ? issue.sessions : []));
+  }
+}
+
+// An open session ends where its duration says, usually at its bedtime
+export function getSessionEnd(session: SleepSession): Date {
+  return session.wakeTime ?? new Date(session.bedtime.getTime() + session.duration);
+}
+
+// Checks the session on its own; overlaps need the stored sessions
+export function validateSession(session: SleepSession): SessionValidationIssue[] {
+  const issues: SessionValidationIssue[] = [];
+
+  if (session.wakeTime) {
+    const span = session.wakeTime.getTime() - session.bedtime.getTime();
+    if (span < 0) {
+      issues.push({ code: 'wake-before-bedtime' });
+    } else if (Math.abs(session.duration - span) > DURATION_TOLERANCE) {
+      issues.push({ code: 'duration-mismatch', expectedDuration: span });
+    }
+  } else if (session.duration < 0) {
+    issues.push({ code: 'duration-mismatch', expectedDuration: 0 });
+  }
+
+  if (!Number.isFinite(session.quality) || session.quality < 0 || session.quality > 100) {
+    issues.push({ code: 'quality-out-of-range' });
+  }
+
+  return issues;
+}
+
+// Sessions that only touch end to start don't overlap
+export function findOverlappingSessions(session: SleepSession, others: SleepSession[]): SleepSession[] {
+  const start = session.bedtime.getTime();
+  const end = getSessionEnd(session).getTime();
+  return others.filter(other =>
+    other.id !== session.id
+    && other.bedtime.getTime() < end
+    && getSessionEnd(other).getTime() > start
+  );
+}
+
+// The first session that recorded sensor data; a merge keeps its data
+export function getSensorSource(sessions: SleepSession[]): SleepSession | undefined {
+  return sessions.find(session => session.hypnogram || session.hasActigraphy);
+}
+
+const earliest = (dates: (Date | undefined)[]): Date | undefined =>
+  dates.reduce<Date | undefined>((first, date) => (date && (!first || date < first) ? date : first), undefined);
+
+const latest = (dates: (Date | undefined)[]): Date | undefined =>
+  dates.reduce<Date | undefined>((last, date) => (date && (!last || date > last) ? date : last), undefined);
+
+// One session spanning all of them. It keeps the id and the user's edits of
+// the session being saved; what the sensor recorded comes from the session
+// that recorded it, even when that is one of the others.
+export function mergeSessions(session: SleepSession, others: SleepSession[]): SleepSession {
+  const all = [session, ...others];
+  const bedtime = earliest(all.map(s => s.bedtime)) ?? session.bedtime;
+  // A session still open stays open
+  const wakeTime = session.wakeTime ? latest(all.map(getSessionEnd)) ?? session.wakeTime : null;
+  const recorded = getSensorSource(all);
+  const notes = all.map(s => s.notes).filter(Boolean).join('\n');
+
+  return {
+    ...session,
+    kind: all.some(s => s.kind === 'main') ? 'main' : session.kind,
+    bedtime,
+    wakeTime,
+    duration: wakeTime ? wakeTime.getTime() - bedtime.getTime() : session.duration,
+    inBedTime: earliest(all.map(s => s.inBedTime)),
+    sleepOnset: session.sleepOnset ?? earliest(others.map(s => s.sleepOnset)),
+    finalAwakening: session.finalAwakening ?? latest(others.map(s => s.finalAwakening)),
+    outOfBedTime: latest(all.map(s => s.outOfBedTime)),
+    // Manual sessions have no quality of their own
+    quality: session.quality > 0 ? session.quality : Math.max(...all.map(s => s.quality)),
+    confidence: Math.max(...all.map(s => s.confidence)),
+    // Merging is the user's decision, so nothing is left to review
+    reviewStatus: all.some(s => s.reviewStatus) ? 'confirmed' : undefined,
+    notes: notes || undefined,
+    hypnogram: recorded?.hypnogram,
+    hasActigraphy: recorded?.hasActigraphy,
+    sensorUsage: recorded?.sensorUsage,
+    gaps: recorded?.gaps,
+    interruptions: recorded?.interruptions,
+    interruptionCount: recorded?.interruptionCount,
+    wakeAfterSleepOnset: recorded?.wakeAfterSleepOnset,
+    alarm: session.alarm ?? others.find(s => s.alarm)?.alarm,
+    overlapsWith: undefined,
+    createdAt: earliest(all.map(s => s.createdAt)),
+  };
+}
+
+// Merges the session with everything it overlaps; a merged session is
+// longer, so it can reach sessions the original didn't
+export function mergeOverlapping(
+  session: SleepSession,
+  candidates: SleepSession[]
+): { merged: SleepSession; absorbed: SleepSession[] } {
+  let merged = session;
+  let absorbed: SleepSession[] = [];
+  let overlapping = findOverlappingSessions(session, candidates);
+
+  while (overlapping.length > 0) {
+    absorbed = [...absorbed, ...overlapping];
+    merged = mergeSessions(session, absorbed);
+    overlapping = findOverlappingSessions(merged, candidates.filter(candidate => !absorbed.includes(candidate)));
+  }
+
+  return { merged, absorbed };
+}
@@ -0,0 +1,79 @@
+import { SessionOverlapPolicy, SleepSession } from '@/types/sleep';
+import { SleepRepository } from './sleepRepository';
+import {
+  MAX_SESSION_LENGTH,
+  SessionValidationError,
+  findOverlappingSessions,
+  getSensorSource,
+  getSessionEnd,
+  mergeOverlapping,
+  validateSession,
+} from './sessionValidation';
+import { stampTimeZone } from './timeZones';
+
+// Saves a session the way StorageService does, on any backend; the replay
+// harness uses it too so replays reject and flag what the app would.
+//
+// Throws a SessionValidationError for an invalid session, or for one that
+// overlaps stored sessions when the policy is 'reject'. Overlaps the session
+// is already flagged with were kept on purpose and aren't rejected again.
+// Returns the session as stored, which differs after a merge.
+export async function storeSleepSession(
+  repository: SleepRepository,
+  session: SleepSession,
+  overlapPolicy: SessionOverlapPolicy
+): Promise<SleepSession> {
+  const issues = validateSession(session);
+  if (issues.length > 0) {
+    throw new SessionValidationError(issues);
+  }
+
+  const nearby = await repository.getSessions({
+    start: new Date(session.bedtime.getTime() - MAX_SESSION_LENGTH),
+    end: getSessionEnd(session),
+  });
+  const overlapping = findOverlappingSessions(session, nearby);
+  const unresolved = overlapping.filter(other => !session.overlapsWith?.includes(other.id));
+  if (unresolved.length > 0 && overlapPolicy === 'reject') {
+    throw new SessionValidationError([{ code: 'overlap', sessions: unresolved }]);
+  }
+
+  if (overlapping.length > 0 && overlapPolicy === 'merge') {
+    return mergeSleepSession(repository, session, nearby);
+  }
+
+  // Sessions keep the zone they were first saved in
+  const stored = stampTimeZone({
+    ...session,
+    overlapsWith: overlapping.length > 0 ? overlapping.map(other => other.id) : undefined,
+  });
+  await repository.saveSession(stored);
+  return stored;
+}
+
+// The merged session is stored before the ones it absorbed are removed,
+// so a failure in between leaves duplicates rather than losing a night
+async function mergeSleepSession(
+  repository: SleepRepository,
+  session: SleepSession,
+  nearby: SleepSession[]
+): Promise<SleepSession> {
+  const { merged, absorbed } = mergeOverlapping(session, nearby);
+
+  // Actigraphy is stored by session id, so it moves with the sensor data
+  const recorded = getSensorSource([session, ...absorbed]);
+  if (recorded && recorded.id !== session.id && recorded.hasActigraphy) {
+    const actigraphy = await repository.getActigraphy(recorded.id);
+    if (actigraphy) {
+      await repository.saveActigraphy({ ...actigraphy, sessionId: merged.id });
+    }
+  }
+
+  const stored = stampTimeZone({ ...merged, updatedAt: new Date() });
+  await repository.saveSession(stored);
+  for (const other of absorbed) {
+    await repository.deleteSession(other.id);
+    await repository.deleteActigraphy(other.id);
+  }
+  return stored;
+}
@@ -1,24 +1,116 @@
-import { DeviceMotion } from 'expo-sensors';
-import * as Battery from 'expo-battery';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Platform } from 'react-native';
-import { SleepSession, DeviceMotionData, SleepDetectionState } from '@/types/sleep';
-import { StorageService } from './storage';
+import {
+  SleepSession,
+  DeviceMotionData,
+  SleepDetectionState,
+  PowerState,
+  AppVisibility,
+  DetectionThresholds,
+  MotionBaseline,
+  SmartAlarm,
+  AlarmEvent,
+  SamplingMode,
+  SamplingProfile,
+  SleepDetectionEvent,
+  SleepSchedule,
+  DetectionAction,
+  DetectionLogEntry,
+  TrackingState,
+  TrackingStatus,
+} from '@/types/sleep';
+import {
+  DetectionClock,
+  DetectionScheduler,
+  DetectionStorage,
+  DeviceStateSource,
+  MotionSource,
+  SleepDetectionDependencies,
+  Subscription,
+  defaultDependencies,
+} from './detectionSources';
+import { ActivityEpochRecorder, getMotionMagnitude, scoreHypnogram } from './sleepStaging';
+import { DETECTION_PROFILES, resolveDetectionThresholds } from './detectionProfiles';
+import { isBaselineReady, learnFromNight, normalizeMotionLevel } from './motionBaseline';
+import { NAP_RULES, classifySessionKind, isNapWindow } from './napDetection';
+import { createSmartAlarm, evaluateSmartAlarm, getAlarmWindowStart, getLiveSleepStage } from './smartAlarm';
+import { buildSessionActigraphy } from './actigraphy';
+import { estimateSleepTiming } from './sleepTiming';
+import { DEFAULT_SLEEP_SCHEDULE } from './sleepSchedule';
+import { stampTimeZone } from './timeZones';
+import { compactLogEntry, groupEntriesByNight } from './detectionLog';
+import { resolveTrackingState } from './trackingLifecycle';
+import { SAMPLING_PROFILES, addSensorUsage, createSensorUsage, selectSamplingMode } from './dutyCycle';
+import {
+  DEFAULT_SIGNAL_FUSION,
+  SignalFusionOptions,
+  SignalFusionResult,
+  SleepSignal,
+  fuseSignals,
+} from './sleepSignals';
 
 class SleepDetectionService {
   private static instance: SleepDetectionService;
   private _isServiceActive = false;
-  private motionSubscription: any = null;
-  private detectionInterval: NodeJS.Timeout | null = null;
-  private lastActivity: Date = new Date();
+  private trackingStatus: TrackingStatus;
+  private motionSubscription: Subscription | null = null;
+  private deviceStateSubscriptions: Subscription[] = [];
+  private detectionInterval: unknown = null;
+  private lastActivity: Date;
   private motionBuffer: DeviceMotionData[] = [];
+  private activityRecorder = new ActivityEpochRecorder();
   private currentSession: SleepSession | null = null;
+  private powerState: PowerState = 'unknown';
+  private lastPowerTransition: { state: PowerState; at: Date } | null = null;
+  private appState: AppVisibility = 'active';
+  private lastCheckpointAt = 0;
+  private awakeSince: Date | null = null; // start of the current awakening
+  // The session's confidence is its mean sleep probability. Ticks of an
+  // awakening only count once it turns out to be an interruption: a sustained
+  // one ends the session where it began.
+  private confidenceTicks = 0;
+  private awakeProbabilities: number[] = [];
+  private smartAlarm: SmartAlarm | null = null;
+  private alarmListeners = new Set<(event: AlarmEvent) => void>();
+  private listeners = new Set<(event: SleepDetectionEvent) => void>();
+  private samplingMode: SamplingMode = 'continuous';
+  private usageAccountedAt = 0; // sensor usage is counted up to this time
+  private pendingLog: DetectionLogEntry[] = [];
+  private lastLogFlushAt = 0;
+  private signals: SleepSignal[];
+  private signalFusion: SignalFusionOptions = DEFAULT_SIGNAL_FUSION;
 
-  // Detection thresholds
-  private readonly INACTIVITY_THRESHOLD = 15 * 60 * 1000; // 15 minutes
-  private readonly MOTION_THRESHOLD = 0.1; // Accelerometer threshold
-  private readonly SLEEP_CONFIDENCE_THRESHOLD = 0.8;
-  private readonly DETECTION_INTERVAL = 30 * 1000; // 30 seconds
+  private readonly clock: DetectionClock;
+  private readonly scheduler: DetectionScheduler;
+  private readonly motionSource: MotionSource;
+  private readonly deviceState: DeviceStateSource;
+  private readonly storage: DetectionStorage;
+
+  // Detection thresholds, loaded from the sensitivity setting
+  private thresholds: DetectionThresholds = DETECTION_PROFILES.medium;
+  private sustainedWakeDuration = 20 * 60 * 1000; // 20 minutes
+  private motionBaseline: MotionBaseline | null = null;
+  private batteryOptimized = true;
+  private reviewConfidenceThreshold = 0.75;
+  private sleepSchedule: SleepSchedule = DEFAULT_SLEEP_SCHEDULE;
+
+  private readonly WAKE_PROBABILITY_THRESHOLD = 0.3;
+  private readonly MOTION_SAMPLE_INTERVAL = 1000; // 1 second, for calibration
+  private readonly MOTION_BUFFER_DURATION = 5 * 60 * 1000; // 5 minutes
+  private readonly RECENT_MOTION_WINDOW = 60 * 1000; // 1 minute
+  private readonly CHECKPOINT_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  private readonly LOG_FLUSH_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  private readonly MAX_RESUME_GAP = 2 * 60 * 60 * 1000; // 2 hours
+
+  constructor(dependencies: Partial<SleepDetectionDependencies> = {}) {
+    const resolved = { ...defaultDependencies, ...dependencies };
+    this.clock = resolved.clock;
+    this.scheduler = resolved.scheduler;
+    this.motionSource = resolved.motionSource;
+    this.deviceState = resolved.deviceState;
+    this.storage = resolved.storage;
+    this.signals = [...resolved.signals];
+    this.lastActivity = this.clock.now();
+    this.trackingStatus = { state: 'disabled', error: null, changedAt: this.clock.now() };
+  }
 
   static getInstance(): SleepDetectionService {
     if (!SleepDetectionService.instance) {
@@ -27,91 +119,396 @@ class SleepDetectionService {
     return SleepDetectionService.instance;
   }
 
+  getTrackingStatus(): TrackingStatus {
+    return { ...this.trackingStatus };
+  }
+
+  private setTrackingState(state: TrackingState, error: string | null = null): void {
+    if (this.trackingStatus.state === state && this.trackingStatus.error === error) return;
+
+    this.trackingStatus = { state, error, changedAt: this.clock.now() };
+    this.emit({ type: 'tracking-state-changed', status: this.getTrackingStatus() });
+  }
+
+  // Brings tracking to where settings, permissions and the last pause say it
+  // should be. Safe to call again, e.g. when returning from system settings.
+  async initializeTracking(): Promise<void> {
+    const { state } = this.trackingStatus;
+    if (state === 'active' || state === 'starting') return;
+
+    try {
+      const settings = await this.storage.getSettings();
+      const next = resolveTrackingState(
+        settings.autoDetectionEnabled ?? true,
+        await this.motionSource.getPermissionStatus(),
+        await this.storage.getTrackingStatus()
+      );
+
+      if (next === 'start') {
+        await this.startTracking();
+      } else {
+        this.setTrackingState(next);
+      }
+    } catch (error) {
+      console.error('Failed to initialize sleep tracking:', error);
+      this.setTrackingState('error', error instanceof Error ? error.message : String(error));
+      this.emitError('initializeTracking', error);
+    }
+  }
+
+  async setAutoDetectionEnabled(enabled: boolean): Promise<void> {
+    await this.storage.updateSettings({ autoDetectionEnabled: enabled });
+
+    if (enabled) {
+      await this.startTracking();
+    } else {
+      await this.releaseTracking();
+      await this.storage.setTrackingStatus(false);
+      this.setTrackingState('disabled');
+    }
+  }
+
+  // Asks for motion access when needed. A refusal leaves tracking in
+  // 'needs-permission' or 'denied' rather than reporting an error.
   async startTracking(): Promise<void> {
-    if (this._isServiceActive) return;
+    const { state } = this.trackingStatus;
+    if (this._isServiceActive || state === 'starting') return;
 
+    this.setTrackingState('starting');
     try {
-      // Request motion permissions (only on native platforms)
-      if (Platform.OS !== 'web') {
-        const { status } = await DeviceMotion.requestPermissionsAsync();
-        if (status !== 'granted') {
-          throw new Error('Motion permissions not granted');
-        }
+      const granted = await this.motionSource.requestPermissions();
+      if (!granted) {
+        const permission = await this.motionSource.getPermissionStatus();
+        this.setTrackingState(permission === 'denied' ? 'denied' : 'needs-permission');
+        return;
       }
 
+      await this.reloadSettings();
+      this.motionBaseline = await this.storage.getMotionBaseline();
+      this.smartAlarm = await this.storage.getSmartAlarm();
+
       this._isServiceActive = true;
-      this.lastActivity = new Date();
+      this.lastActivity = this.clock.now();
+      // Start at full rate; the first detection pass picks the right mode
+      this.samplingMode = this.batteryOptimized ? 'transition' : 'continuous';
+
+      // Pick up a night that was interrupted by the app being killed
+      await this.restoreCheckpoint();
+      this.usageAccountedAt = this.clock.now().getTime();
       
-      // Start motion monitoring (only on native platforms)
-      if (Platform.OS !== 'web') {
-        this.startMotionMonitoring();
-      }
+      this.startMotionMonitoring();
+      await this.startDeviceStateMonitoring();
+      await Promise.all(this.signals.map(signal => this.startSignal(signal)));
       
       // Start periodic sleep detection
       this.startPeriodicDetection();
       
-      await AsyncStorage.setItem('sleepTracking', 'true');
+      await this.storage.setTrackingStatus(true);
       console.log('Sleep tracking started');
+      this.setTrackingState('active');
+      this.emit({ type: 'tracking-started', at: this.clock.now() });
     } catch (error) {
       console.error('Failed to start sleep tracking:', error);
-      this._isServiceActive = false;
+      await this.releaseTracking();
+      this.setTrackingState('error', error instanceof Error ? error.message : String(error));
+      this.emitError('startTracking', error);
     }
   }
 
+  // Pauses tracking; it stays paused across restarts until started again
   async stopTracking(): Promise<void> {
+    await this.releaseTracking();
+    await this.storage.setTrackingStatus(false);
+    this.setTrackingState('paused');
+  }
+
+  private async releaseTracking(): Promise<void> {
+    const wasActive = this._isServiceActive;
     this._isServiceActive = false;
+    await this.flushDetectionLog();
     
     if (this.motionSubscription) {
       this.motionSubscription.remove();
       this.motionSubscription = null;
     }
+
+    this.deviceStateSubscriptions.forEach(subscription => subscription.remove());
+    this.deviceStateSubscriptions = [];
+    this.signals.forEach(signal => signal.stop?.());
     
     if (this.detectionInterval) {
-      clearInterval(this.detectionInterval);
+      this.scheduler.clearInterval(this.detectionInterval);
       this.detectionInterval = null;
     }
     
-    await AsyncStorage.setItem('sleepTracking', 'false');
-    console.log('Sleep tracking stopped');
+    if (wasActive) {
+      console.log('Sleep tracking stopped');
+      this.emit({ type: 'tracking-stopped', at: this.clock.now() });
+    }
   }
 
+  // The stored flag only records that tracking was requested; it stays 'true'
+  // when the OS kills the app, so report whether this process is tracking.
   async isTracking(): Promise<boolean> {
-    const trackingStatus = await AsyncStorage.getItem('sleepTracking');
-    return trackingStatus === 'true';
+    return this._isServiceActive;
+  }
+
+  async reloadSettings(): Promise<void> {
+    const settings = await this.storage.getSettings();
+    this.thresholds = resolveDetectionThresholds(settings);
+    this.sustainedWakeDuration = (settings.sustainedWakeMinutes ?? 20) * 60 * 1000;
+    this.batteryOptimized = settings.batteryOptimized ?? true;
+    this.reviewConfidenceThreshold = settings.reviewConfidenceThreshold ?? 0.75;
+    this.sleepSchedule = settings.sleepSchedule ?? DEFAULT_SLEEP_SCHEDULE;
+  }
+
+  getThresholds(): DetectionThresholds {
+    return { ...this.thresholds };
+  }
+
+  async getMotionBaseline(): Promise<MotionBaseline | null> {
+    return this.motionBaseline ?? this.storage.getMotionBaseline();
+  }
+
+  async resetMotionBaseline(): Promise<void> {
+    this.motionBaseline = null;
+    await this.storage.saveMotionBaseline(null);
+  }
+
+  async getSmartAlarm(): Promise<SmartAlarm | null> {
+    return this.smartAlarm ?? this.storage.getSmartAlarm();
+  }
+
+  async scheduleSmartAlarm(
+    latestWakeTime: Date,
+    windowMinutes: number,
+    snoozeMinutes?: number
+  ): Promise<SmartAlarm> {
+    // The alarm is checked on detection passes, so nothing would ring it
+    // while tracking is paused or disabled
+    if (!this._isServiceActive) {
+      throw new Error('Smart alarm needs sleep tracking to be active');
+    }
+
+    const alarm = createSmartAlarm(latestWakeTime, windowMinutes, snoozeMinutes);
+    this.smartAlarm = alarm;
+    await this.storage.saveSmartAlarm(alarm);
+    return alarm;
+  }
+
+  async cancelSmartAlarm(): Promise<void> {
+    this.smartAlarm = null;
+    await this.storage.saveSmartAlarm(null);
+  }
+
+  async snoozeSmartAlarm(): Promise<void> {
+    if (!this.smartAlarm?.lastFired) return;
+
+    const now = this.clock.now();
+    this.smartAlarm = {
+      ...this.smartAlarm,
+      snoozedUntil: new Date(now.getTime() + this.smartAlarm.snoozeMinutes * 60 * 1000),
+    };
+    await this.storage.saveSmartAlarm(this.smartAlarm);
+  }
+
+  // Alarms are one-shot: dismissing clears it until the next one is scheduled
+  async dismissSmartAlarm(): Promise<void> {
+    await this.cancelSmartAlarm();
+  }
+
+  // Ends the open automatic session now, e.g. when the user taps "awake".
+  // The user is there to be told if it can't be saved, so the error is
+  // rethrown once the session has been dropped.
+  async endCurrentSession(): Promise<void> {
+    await this.endSleepSession(this.clock.now(), true);
+  }
+
+  // Adds a provider to the sleep probability, replacing any with the same id.
+  // Providers registered while tracking are started right away.
+  registerSignal(signal: SleepSignal): Subscription {
+    this.unregisterSignal(signal.id);
+    this.signals = [...this.signals, signal];
+    if (this._isServiceActive) {
+      this.startSignal(signal);
+    }
+
+    return { remove: () => this.unregisterSignal(signal.id) };
+  }
+
+  unregisterSignal(id: string): void {
+    const existing = this.signals.find(signal => signal.id === id);
+    if (!existing) return;
+
+    existing.stop?.();
+    this.signals = this.signals.filter(signal => signal !== existing);
+  }
+
+  configureSignalFusion(options: Partial<SignalFusionOptions>): void {
+    this.signalFusion = { ...this.signalFusion, ...options };
+  }
+
+  getSignalLabels(): Record<string, string> {
+    return Object.fromEntries(this.signals.map(signal => [signal.id, signal.label]));
+  }
+
+  private async startSignal(signal: SleepSignal): Promise<void> {
+    try {
+      await signal.start?.();
+    } catch (error) {
+      // Detection carries on without this provider's sensor
+      console.error(`Failed to start sleep signal ${signal.id}:`, error);
+    }
+  }
+
+  addListener(listener: (event: SleepDetectionEvent) => void): Subscription {
+    this.listeners.add(listener);
+    return { remove: () => this.listeners.delete(listener) };
+  }
+
+  // A failing listener must not break detection or the other listeners
+  private emit(event: SleepDetectionEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Sleep detection listener failed:', error);
+      }
+    });
+  }
+
+  private emitError(operation: string, error: unknown): void {
+    this.emit({
+      type: 'error',
+      error: error instanceof Error ? error : new Error(String(error)),
+      operation,
+    });
+  }
+
+  addAlarmListener(listener: (event: AlarmEvent) => void): Subscription {
+    this.alarmListeners.add(listener);
+    return { remove: () => this.alarmListeners.delete(listener) };
+  }
+
+  // Averages the motion magnitude over a short window, independently of
+  // tracking. Used by the calibration wizard.
+  async measureMotionLevel(durationMs: number): Promise<number> {
+    const granted = await this.motionSource.requestPermissions();
+    if (!granted) {
+      throw new Error('Motion permissions not granted');
+    }
+
+    const magnitudes: number[] = [];
+    const subscription = this.motionSource.subscribe(this.MOTION_SAMPLE_INTERVAL, (motion) => {
+      magnitudes.push(getMotionMagnitude(motion));
+    });
+
+    await new Promise<void>(resolve => {
+      const handle = this.scheduler.setInterval(() => {
+        this.scheduler.clearInterval(handle);
+        resolve();
+      }, durationMs);
+    });
+    subscription.remove();
+
+    if (magnitudes.length === 0) {
+      throw new Error('No motion samples received during calibration');
+    }
+
+    return magnitudes.reduce((sum, magnitude) => sum + magnitude, 0) / magnitudes.length;
+  }
+
+  private getSamplingProfile(): SamplingProfile {
+    return SAMPLING_PROFILES[this.samplingMode];
   }
 
   private startMotionMonitoring(): void {
-    if (Platform.OS === 'web') return;
-    
-    DeviceMotion.setUpdateInterval(1000); // 1 second intervals
-    
-    this.motionSubscription = DeviceMotion.addListener((motionData) => {
+    const { motionInterval } = this.getSamplingProfile();
+    this.motionSubscription = this.motionSource.subscribe(motionInterval, (motion) => {
       if (!this._isServiceActive) return;
 
-      const now = new Date();
-      const motion: DeviceMotionData = {
-        timestamp: now.getTime(),
-        acceleration: motionData.acceleration || { x: 0, y: 0, z: 0 },
-        rotation: motionData.rotation || { alpha: 0, beta: 0, gamma: 0 },
-      };
-
-      // Add to motion buffer (keep last 5 minutes)
+      // Add to motion buffer (keep last 5 minutes, whatever the sample rate)
       this.motionBuffer.push(motion);
-      if (this.motionBuffer.length > 300) { // 5 minutes at 1 second intervals
+      const bufferStart = motion.timestamp - this.MOTION_BUFFER_DURATION;
+      while (this.motionBuffer.length > 0 && this.motionBuffer[0].timestamp < bufferStart) {
         this.motionBuffer.shift();
       }
 
+      // Keep per-epoch activity for the whole night for sleep staging
+      this.activityRecorder.add(motion);
+
       // Check for significant motion
       if (this.hasSignificantMotion(motion)) {
-        this.lastActivity = now;
+        this.lastActivity = new Date(motion.timestamp);
       }
     });
   }
 
+  private async startDeviceStateMonitoring(): Promise<void> {
+    this.powerState = await this.deviceState.getPowerState();
+    this.lastPowerTransition = null;
+    this.appState = this.deviceState.getAppState();
+
+    this.deviceStateSubscriptions = [
+      this.deviceState.subscribePowerState((state) => {
+        if (state !== this.powerState && state !== 'unknown') {
+          this.lastPowerTransition = { state, at: this.clock.now() };
+        }
+        this.powerState = state;
+      }),
+      this.deviceState.subscribeAppState((state) => {
+        this.appState = state;
+      }),
+    ];
+  }
+
   private startPeriodicDetection(): void {
-    this.detectionInterval = setInterval(() => {
-      this.performSleepDetection();
-    }, this.DETECTION_INTERVAL);
+    this.detectionInterval = this.scheduler.setInterval(
+      () => this.performSleepDetection().catch(error => {
+        console.error('Sleep detection failed:', error);
+        this.emitError('performSleepDetection', error);
+      }),
+      this.getSamplingProfile().detectionInterval
+    );
+  }
+
+  // Switches sensor and detection rates when battery optimization is on.
+  // Only called from a detection pass, after usage has been accounted.
+  private updateSamplingMode(now: Date, sleepProbability: number, inactivityDuration: number): void {
+    const mode = selectSamplingMode({
+      batteryOptimized: this.batteryOptimized,
+      sleepProbability,
+      inactivityDuration,
+      inSession: !!this.currentSession,
+      possiblyAwake: !!this.awakeSince,
+      inAlarmWindow: !!this.smartAlarm && now.getTime() >= getAlarmWindowStart(this.smartAlarm).getTime(),
+    });
+    if (mode === this.samplingMode) return;
+
+    this.samplingMode = mode;
+    if (this.motionSubscription) {
+      this.motionSubscription.remove();
+      this.startMotionMonitoring();
+    }
+    if (this.detectionInterval) {
+      this.scheduler.clearInterval(this.detectionInterval);
+      this.startPeriodicDetection();
+    }
+    console.log('Sampling mode changed:', mode);
+  }
+
+  private accountSensorUsage(now: Date): void {
+    if (this.currentSession) {
+      this.currentSession = {
+        ...this.currentSession,
+        sensorUsage: addSensorUsage(
+          this.currentSession.sensorUsage ?? createSensorUsage(),
+          this.samplingMode,
+          now.getTime() - this.usageAccountedAt
+        ),
+      };
+    }
+    this.usageAccountedAt = now.getTime();
   }
 
   private hasSignificantMotion(motion: DeviceMotionData): boolean {
@@ -119,63 +516,267 @@ class SleepDetectionService {
     const magnitude = Math.sqrt(
       acceleration.x ** 2 + acceleration.y ** 2 + acceleration.z ** 2
     );
-    return magnitude > this.MOTION_THRESHOLD;
+    return magnitude > this.thresholds.motionThreshold;
   }
 
   private async performSleepDetection(): Promise<void> {
-    const now = new Date();
+    const now = this.clock.now();
     const inactivityDuration = now.getTime() - this.lastActivity.getTime();
+    this.accountSensorUsage(now);
     
     // Calculate sleep probability
-    const sleepProbability = this.calculateSleepProbability(inactivityDuration, now);
+    const fusion = this.evaluateSignals(inactivityDuration, now);
+    const sleepProbability = fusion.probability;
+    const wasInSession = !!this.currentSession;
+    const napWindow = isNapWindow(now, this.sleepSchedule);
+    let action: DetectionAction = 'none';
     
     // Check if we should start a new sleep session
-    if (!this.currentSession && sleepProbability > this.SLEEP_CONFIDENCE_THRESHOLD) {
+    if (!this.currentSession && this.shouldOpenSession(sleepProbability, inactivityDuration, now)) {
       await this.startSleepSession(sleepProbability);
+      action = 'session-opened';
     }
     
-    // Check if we should end the current sleep session
-    if (this.currentSession && sleepProbability < 0.3) {
-      await this.endSleepSession();
+    // Awakenings only end the session once they last long enough; shorter
+    // ones are kept on the session as interruptions.
+    if (this.currentSession) {
+      if (sleepProbability < this.WAKE_PROBABILITY_THRESHOLD) {
+        if (!this.awakeSince) {
+          this.awakeSince = now;
+          this.awakeProbabilities = [sleepProbability];
+          action = 'awakening-started';
+        } else if (now.getTime() - this.awakeSince.getTime() >= this.getSustainedWakeDuration()) {
+          await this.endSleepSession(this.awakeSince);
+          action = 'session-closed';
+        } else {
+          this.awakeProbabilities.push(sleepProbability);
+        }
+      } else if (this.awakeSince) {
+        this.recordInterruption(this.awakeSince, now);
+        this.averageConfidence([...this.awakeProbabilities, sleepProbability]);
+        this.awakeSince = null;
+        action = 'interruption-recorded';
+      } else if (wasInSession) {
+        this.averageConfidence([sleepProbability]);
+      }
+    }
+
+    await this.logDetection({
+      at: now,
+      inactivity: inactivityDuration,
+      signals: fusion.contributions,
+      probability: sleepProbability,
+      threshold: wasInSession
+        ? this.WAKE_PROBABILITY_THRESHOLD
+        : napWindow ? NAP_RULES.confidenceThreshold : this.thresholds.sleepConfidenceThreshold,
+      inSession: wasInSession,
+      napWindow,
+      action,
+    });
+
+    await this.checkSmartAlarm(now);
+
+    if (this.currentSession && now.getTime() - this.lastCheckpointAt >= this.CHECKPOINT_INTERVAL) {
+      await this.saveCheckpoint();
     }
+
+    this.updateSamplingMode(now, sleepProbability, inactivityDuration);
+    this.emit({ type: 'probability-updated', state: this.getDetectionState() });
   }
 
-  private calculateSleepProbability(inactivityDuration: number, currentTime: Date): number {
-    let probability = 0;
-    
-    // Inactivity factor (0-0.4)
-    const inactivityFactor = Math.min(inactivityDuration / this.INACTIVITY_THRESHOLD, 1) * 0.4;
-    probability += inactivityFactor;
-    
-    // Time of day factor (0-0.3)
-    const hour = currentTime.getHours();
-    let timeOfDayFactor = 0;
-    if (hour >= 22 || hour <= 6) {
-      timeOfDayFactor = 0.3; // Night time
-    } else if (hour >= 13 && hour <= 15) {
-      timeOfDayFactor = 0.15; // Afternoon nap time
-    }
-    probability += timeOfDayFactor;
-    
-    // Motion factor (0-0.2)
-    const recentMotion = this.getRecentMotionLevel();
-    const motionFactor = (1 - recentMotion) * 0.2;
-    probability += motionFactor;
-    
-    // Battery charging factor (0-0.1)
-    // Note: Battery status would need to be checked here
-    // For now, we'll assume a small boost if it's typical charging time
-    if (hour >= 23 || hour <= 6) {
-      probability += 0.1;
+  // Entries are buffered and written every few minutes, or right away when
+  // the pass changed something
+  private async logDetection(entry: DetectionLogEntry): Promise<void> {
+    this.pendingLog.push(compactLogEntry(entry));
+
+    if (entry.action !== 'none' || entry.at.getTime() - this.lastLogFlushAt >= this.LOG_FLUSH_INTERVAL) {
+      this.lastLogFlushAt = entry.at.getTime();
+      await this.flushDetectionLog();
     }
-    
-    return Math.min(probability, 1);
+  }
+
+  private async flushDetectionLog(): Promise<void> {
+    if (this.pendingLog.length === 0) return;
+
+    const entries = this.pendingLog;
+    this.pendingLog = [];
+    try {
+      for (const [night, nightEntries] of Array.from(groupEntriesByNight(entries))) {
+        await this.storage.appendDetectionLog(night, nightEntries);
+      }
+    } catch (error) {
+      console.error('Failed to save detection log:', error);
+      this.emitError('appendDetectionLog', error);
+    }
+  }
+
+  // Light-sleep wake-ups need live motion from an open session; without one
+  // the alarm still rings at the deadline.
+  private async checkSmartAlarm(now: Date): Promise<void> {
+    if (!this.smartAlarm) return;
+
+    const stage = this.currentSession
+      ? getLiveSleepStage(
+          this.activityRecorder.getEpochs(this.currentSession.bedtime.getTime(), now.getTime()),
+          now
+        )
+      : null;
+    const reason = evaluateSmartAlarm(this.smartAlarm, now, stage);
+    if (!reason) return;
+
+    const event: AlarmEvent = {
+      alarmId: this.smartAlarm.id,
+      firedAt: now,
+      reason,
+      stage: reason === 'light-sleep' ? stage ?? undefined : undefined,
+      snoozeCount: (this.smartAlarm.lastFired?.snoozeCount ?? -1) + 1,
+    };
+
+    this.smartAlarm = { ...this.smartAlarm, lastFired: event, snoozedUntil: undefined };
+    await this.storage.saveSmartAlarm(this.smartAlarm);
+
+    if (this.currentSession) {
+      // Keep the first trigger, but count the snoozes that followed it
+      const firstEvent = this.currentSession.alarm?.alarmId === event.alarmId
+        ? this.currentSession.alarm
+        : event;
+      this.currentSession = {
+        ...this.currentSession,
+        alarm: { ...firstEvent, snoozeCount: event.snoozeCount },
+      };
+      await this.saveCheckpoint();
+    }
+
+    console.log('Smart alarm fired:', event);
+    this.alarmListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Smart alarm listener failed:', error);
+      }
+    });
+  }
+
+  // Naps have their own, stricter rules: daytime evidence is weaker, so
+  // require a longer stretch of stillness as well as the nap threshold.
+  private shouldOpenSession(sleepProbability: number, inactivityDuration: number, now: Date): boolean {
+    if (isNapWindow(now, this.sleepSchedule)) {
+      return inactivityDuration >= NAP_RULES.minInactivity &&
+        sleepProbability > NAP_RULES.confidenceThreshold;
+    }
+
+    return sleepProbability > this.thresholds.sleepConfidenceThreshold;
+  }
+
+  private getSustainedWakeDuration(): number {
+    return this.currentSession?.kind === 'nap'
+      ? Math.min(NAP_RULES.sustainedWake, this.sustainedWakeDuration)
+      : this.sustainedWakeDuration;
+  }
+
+  private averageConfidence(probabilities: number[]): void {
+    if (!this.currentSession) return;
+
+    const ticks = this.confidenceTicks + probabilities.length;
+    const total = probabilities.reduce(
+      (sum, probability) => sum + probability,
+      this.currentSession.confidence * this.confidenceTicks
+    );
+    this.currentSession = { ...this.currentSession, confidence: total / ticks };
+    this.confidenceTicks = ticks;
+  }
+
+  private recordInterruption(start: Date, end: Date): void {
+    if (!this.currentSession) return;
+
+    const interruptions = [...(this.currentSession.interruptions ?? []), { start, end }];
+    this.currentSession = {
+      ...this.currentSession,
+      interruptions,
+      interruptionCount: interruptions.length,
+      wakeAfterSleepOnset: interruptions.reduce(
+        (total, interruption) => total + interruption.end.getTime() - interruption.start.getTime(),
+        0
+      ),
+    };
+  }
+
+  private async saveCheckpoint(): Promise<void> {
+    if (!this.currentSession) return;
+
+    const now = this.clock.now();
+    try {
+      await this.storage.saveDetectionCheckpoint({
+        session: this.currentSession,
+        lastActivity: this.lastActivity,
+        savedAt: now,
+        activityEpochs: this.activityRecorder.getEpochs(
+          (this.currentSession.inBedTime ?? this.currentSession.bedtime).getTime(),
+          now.getTime()
+        ),
+        confidenceTicks: this.confidenceTicks,
+      });
+      this.lastCheckpointAt = now.getTime();
+    } catch (error) {
+      console.error('Failed to checkpoint sleep session:', error);
+      this.emitError('saveCheckpoint', error);
+    }
+  }
+
+  private async restoreCheckpoint(): Promise<void> {
+    const checkpoint = await this.storage.getDetectionCheckpoint();
+    if (!checkpoint) return;
+
+    const now = this.clock.now();
+    const gapDuration = now.getTime() - checkpoint.savedAt.getTime();
+    this.activityRecorder.restore(checkpoint.activityEpochs);
+    this.currentSession = checkpoint.session;
+    this.confidenceTicks = checkpoint.confidenceTicks ?? 1;
+    this.awakeSince = null;
+
+    // After a long outage we can't tell when the user woke up, so close the
+    // session where the data ends instead of stretching it to now.
+    if (gapDuration > this.MAX_RESUME_GAP) {
+      await this.endSleepSession(checkpoint.savedAt);
+      console.log('Closed interrupted sleep session:', checkpoint.session.id);
+      return;
+    }
+
+    this.lastActivity = checkpoint.lastActivity;
+    if (gapDuration > this.getSamplingProfile().detectionInterval) {
+      this.currentSession = {
+        ...this.currentSession,
+        gaps: [...(this.currentSession.gaps ?? []), { start: checkpoint.savedAt, end: now }],
+      };
+    }
+    await this.saveCheckpoint();
+    console.log('Resumed interrupted sleep session:', checkpoint.session.id);
+    this.emit({ type: 'session-opened', session: this.currentSession, resumed: true });
+  }
+
+  private evaluateSignals(inactivityDuration: number, currentTime: Date): SignalFusionResult {
+    return fuseSignals(this.signals, {
+      window: {
+        start: new Date(currentTime.getTime() - this.getSamplingProfile().detectionInterval),
+        end: currentTime,
+      },
+      inactivityDuration,
+      recentMotionLevel: this.getRecentMotionLevel(),
+      powerState: this.powerState,
+      lastPowerTransition: this.lastPowerTransition,
+      appState: this.appState,
+      thresholds: this.thresholds,
+      schedule: this.sleepSchedule,
+    }, this.signalFusion);
   }
 
   private getRecentMotionLevel(): number {
     if (this.motionBuffer.length === 0) return 0;
     
-    const recentMotions = this.motionBuffer.slice(-60); // Last minute
+    const latest = this.motionBuffer[this.motionBuffer.length - 1].timestamp;
+    const recentMotions = this.motionBuffer.filter(
+      motion => motion.timestamp > latest - this.RECENT_MOTION_WINDOW
+    );
     const motionSum = recentMotions.reduce((sum, motion) => {
       const magnitude = Math.sqrt(
         motion.acceleration.x ** 2 + 
@@ -185,29 +786,62 @@ class SleepDetectionService {
       return sum + magnitude;
     }, 0);
     
-    return Math.min(motionSum / recentMotions.length / this.MOTION_THRESHOLD, 1);
+    const averageMagnitude = motionSum / recentMotions.length;
+
+    // Prefer the learned per-device baseline over the fixed threshold
+    if (this.motionBaseline && isBaselineReady(this.motionBaseline)) {
+      return normalizeMotionLevel(averageMagnitude, this.motionBaseline);
+    }
+    
+    return Math.min(averageMagnitude / this.thresholds.motionThreshold, 1);
   }
 
   private async startSleepSession(confidence: number): Promise<void> {
-    const bedtime = new Date(this.lastActivity.getTime() + this.INACTIVITY_THRESHOLD);
+    const now = this.clock.now();
+    // Charging and the schedule can open a session before the stillness
+    // reaches the inactivity threshold; bedtime is never in the future
+    const bedtime = new Date(Math.min(
+      this.lastActivity.getTime() + this.thresholds.inactivityThreshold,
+      now.getTime()
+    ));
     
-    this.currentSession = {
-      id: Date.now().toString(),
+    this.currentSession = stampTimeZone({
+      id: now.getTime().toString(),
+      kind: isNapWindow(now, this.sleepSchedule) ? 'nap' : 'main',
       bedtime,
       wakeTime: null,
       duration: 0,
+      inBedTime: new Date(this.lastActivity), // last movement before the stillness
       quality: 0,
       isManual: false,
       confidence,
-    };
+      interruptionCount: 0,
+      wakeAfterSleepOnset: 0,
+      sensorUsage: createSensorUsage(),
+    });
+    this.confidenceTicks = 1;
+    this.awakeSince = null;
+
+    await this.saveCheckpoint();
     
     console.log('Sleep session started:', this.currentSession);
+    this.emit({ type: 'session-opened', session: this.currentSession, resumed: false });
   }
 
-  private async endSleepSession(): Promise<void> {
+  private async endSleepSession(
+    wakeTime: Date = this.clock.now(),
+    rethrowSaveError = false
+  ): Promise<void> {
     if (!this.currentSession) return;
+
+    // Up again before the session's bedtime, e.g. from a checkpoint whose
+    // bedtime was still ahead: there is no sleep to keep
+    if (wakeTime.getTime() <= this.currentSession.bedtime.getTime()) {
+      console.log('Discarded sleep session that ended before its bedtime:', this.currentSession.id);
+      await this.dropCurrentSession();
+      return;
+    }
     
-    const wakeTime = new Date();
     const duration = wakeTime.getTime() - this.currentSession.bedtime.getTime();
     
     // Calculate sleep quality based on duration and motion patterns
@@ -215,15 +849,88 @@ class SleepDetectionService {
     
     const completedSession: SleepSession = {
       ...this.currentSession,
+      kind: classifySessionKind(this.currentSession.bedtime, duration, this.sleepSchedule),
       wakeTime,
       duration,
+      outOfBedTime: wakeTime,
       quality,
     };
+    if (completedSession.confidence < this.reviewConfidenceThreshold) {
+      completedSession.reviewStatus = 'pending';
+    }
+
+    // Onset and final awakening are scored over the whole time in bed, which
+    // starts before the session's bedtime
+    const inBedTime = this.currentSession.inBedTime ?? this.currentSession.bedtime;
+    const inBedEpochs = this.activityRecorder.getEpochs(inBedTime.getTime(), wakeTime.getTime());
+    const timing = estimateSleepTiming(inBedEpochs, inBedTime, wakeTime);
+    if (timing) {
+      completedSession.sleepOnset = timing.sleepOnset;
+      completedSession.finalAwakening = timing.finalAwakening;
+    }
+
+    const sessionEpochs = this.activityRecorder.getEpochs(
+      this.currentSession.bedtime.getTime(),
+      wakeTime.getTime()
+    );
+    if (sessionEpochs.length > 0) {
+      completedSession.hypnogram = scoreHypnogram(
+        sessionEpochs,
+        this.currentSession.bedtime.getTime(),
+        wakeTime.getTime()
+      );
+
+      // The raw epochs are kept so the night can be re-scored later; losing
+      // them must not lose the session itself.
+      try {
+        await this.storage.saveSessionActigraphy(buildSessionActigraphy(
+          completedSession.id,
+          inBedEpochs,
+          inBedTime.getTime(),
+          wakeTime.getTime()
+        ));
+        completedSession.hasActigraphy = true;
+      } catch (error) {
+        console.error('Failed to archive session actigraphy:', error);
+        this.emitError('saveSessionActigraphy', error);
+      }
+    }
     
-    await StorageService.saveSleepSession(completedSession);
-    this.currentSession = null;
+    // Nobody is around to choose, so an overlap with a manual session is
+    // kept and flagged for the user to resolve from the history. A session
+    // that can't be stored is dropped: kept open, it would fail the same way
+    // on every tick and no later night could be detected.
+    try {
+      await this.storage.saveSleepSession(completedSession, 'keep-both');
+    } catch (error) {
+      console.error('Failed to save sleep session, dropping it:', error);
+      this.emitError('saveSleepSession', error);
+      await this.dropCurrentSession();
+      if (rethrowSaveError) throw error;
+      return;
+    }
+    await this.dropCurrentSession();
+
+    const learnedBaseline = learnFromNight(this.motionBaseline, sessionEpochs, wakeTime);
+    if (learnedBaseline !== this.motionBaseline) {
+      this.motionBaseline = learnedBaseline;
+      await this.storage.saveMotionBaseline(learnedBaseline);
+    }
     
     console.log('Sleep session ended:', completedSession);
+    this.emit({ type: 'session-closed', session: completedSession });
+  }
+
+  // Detection carries on even if the checkpoint can't be cleared
+  private async dropCurrentSession(): Promise<void> {
+    this.currentSession = null;
+    this.awakeSince = null;
+    try {
+      await this.storage.clearDetectionCheckpoint();
+    } catch (error) {
+      console.error('Failed to clear sleep session checkpoint:', error);
+      this.emitError('clearCheckpoint', error);
+    }
   }
 
   private calculateSleepQuality(duration: number): number {
@@ -260,16 +967,20 @@ class SleepDetectionService {
   }
 
   getDetectionState(): SleepDetectionState {
-    const now = new Date();
+    const now = this.clock.now();
+    const inactivityDuration = now.getTime() - this.lastActivity.getTime();
+    const fusion = this.evaluateSignals(inactivityDuration, now);
     return {
       isTracking: this._isServiceActive,
+      trackingStatus: this.getTrackingStatus(),
       currentSession: this.currentSession,
       lastActivity: this.lastActivity,
-      inactivityDuration: now.getTime() - this.lastActivity.getTime(),
-      sleepProbability: this.calculateSleepProbability(
-        now.getTime() - this.lastActivity.getTime(),
-        now
-      ),
+      inactivityDuration,
+      sleepProbability: fusion.probability,
+      signals: fusion.contributions,
+      powerState: this.powerState,
+      appState: this.appState,
+      samplingMode: this.samplingMode,
     };
   }
 }
@@ -0,0 +1,91 @@
+import {
+  DetectionCheckpoint,
+  DetectionLogEntry,
+  JetLagTrip,
+  MotionBaseline,
+  SessionActigraphy,
+  SleepSession,
+  SleepSettings,
+  SmartAlarm,
+} from '@/types/sleep';
+
+// Single records kept besides the sessions, by name
+export interface SleepRecords {
+  settings: Partial<SleepSettings>;
+  trackingStatus: boolean;
+  motionBaseline: MotionBaseline;
+  detectionCheckpoint: DetectionCheckpoint;
+  smartAlarm: SmartAlarm;
+  jetLagTrip: JetLagTrip;
+}
+
+export type SleepRecordName = keyof SleepRecords;
+
+export const SLEEP_RECORD_NAMES: SleepRecordName[] = [
+  'settings',
+  'trackingStatus',
+  'motionBaseline',
+  'detectionCheckpoint',
+  'smartAlarm',
+  'jetLagTrip',
+];
+
+// Bounds on bedtime, both inclusive; a missing bound is open
+export interface SessionRange {
+  start?: Date;
+  end?: Date;
+}
+
+// Where StorageService keeps its data. Backends only store and load:
+// defaults, review rules, log limits and statistics stay in StorageService,
+// so every backend behaves the same (see storageConfig.ts to pick one).
+export interface SleepRepository {
+  // Brings the backend's stored data up to date; runs once at startup
+  migrate(): Promise<void>;
+
+  saveSession(session: SleepSession): Promise<void>;
+  getSession(id: string): Promise<SleepSession | null>;
+  getSessions(range?: SessionRange): Promise<SleepSession[]>;
+  deleteSession(id: string): Promise<void>;
+
+  saveActigraphy(actigraphy: SessionActigraphy): Promise<void>;
+  getActigraphy(sessionId: string): Promise<SessionActigraphy | null>;
+  deleteActigraphy(sessionId: string): Promise<void>;
+
+  saveDetectionLog(night: string, entries: DetectionLogEntry[]): Promise<void>;
+  getDetectionLog(night: string): Promise<DetectionLogEntry[]>;
+  getDetectionLogNights(): Promise<string[]>; // newest first
+  deleteDetectionLogs(nights: string[]): Promise<void>;
+
+  // null removes the record
+  saveRecord<K extends SleepRecordName>(name: K, value: SleepRecords[K] | null): Promise<void>;
+  getRecord<K extends SleepRecordName>(name: K): Promise<SleepRecords[K] | null>;
+
+  clear(): Promise<void>;
+}
+
+export const isInSessionRange = (session: SleepSession, range: SessionRange = {}): boolean =>
+  (!range.start || session.bedtime >= range.start) && (!range.end || session.bedtime <= range.end);
+
+// Copies everything one backend keeps into another, e.g. when switching to
+// SQLite, so the history comes along
+export async function copySleepData(from: SleepRepository, to: SleepRepository): Promise<void> {
+  for (const session of await from.getSessions()) {
+    await to.saveSession(session);
+    const actigraphy = await from.getActigraphy(session.id);
+    if (actigraphy) {
+      await to.saveActigraphy(actigraphy);
+    }
+  }
+
+  for (const night of await from.getDetectionLogNights()) {
+    await to.saveDetectionLog(night, await from.getDetectionLog(night));
+  }
+
+  for (const name of SLEEP_RECORD_NAMES) {
+    const value = await from.getRecord(name);
+    if (value !== null) {
+      await to.saveRecord(name, value);
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { SleepSchedule, SleepScheduleDay, SleepWindow } from '@/types/sleep';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MAX_CONSISTENCY_STD_DEV = 120; // 2 hours
+
+export const BEDTIME_REMINDER_LEAD = 30 * 60 * 1000; // 30 minutes
+
+export const DEFAULT_SCHEDULE_DAY: SleepScheduleDay = {
+  sleep: { start: 22 * 60, end: 7 * 60 }, // 22:00 - 07:00
+  nap: { start: 13 * 60, end: 16 * 60 }, // 13:00 - 16:00
+};
+
+export const DEFAULT_SLEEP_SCHEDULE: SleepSchedule = {
+  type: 'fixed',
+  day: DEFAULT_SCHEDULE_DAY,
+};
+
+export const toMinutesOfDay = (date: Date): number => date.getHours() * 60 + date.getMinutes();
+
+export const formatMinutesOfDay = (minutes: number): string => {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hour = Math.floor(normalized / 60).toString().padStart(2, '0');
+  const minute = (normalized % 60).toString().padStart(2, '0');
+  return `${hour}:${minute}`;
+};
+
+export const getWindowDuration = (window: SleepWindow): number =>
+  (((window.end - window.start) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+const startOfDay = (date: Date, dayOffset = 0): Date => {
+  const day = new Date(date);
+  day.setDate(day.getDate() + dayOffset);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+// Local midnight of a YYYY-MM-DD date
+const parseScheduleDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(part => parseInt(part, 10));
+  return new Date(year, month - 1, day);
+};
+
+export function toScheduleDate(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// One-line summary for the settings screen
+export function describeSleepSchedule(schedule: SleepSchedule): string {
+  switch (schedule.type) {
+    case 'fixed':
+      return `Todos los días de ${formatMinutesOfDay(schedule.day.sleep.start)} a ${formatMinutesOfDay(schedule.day.sleep.end)}`;
+    case 'weekly':
+      return 'Un horario distinto para cada día de la semana';
+    case 'rotating':
+      return `Turnos rotativos en un ciclo de ${schedule.days.length} días`;
+  }
+}
+
+// The windows that start on the given date
+export function getScheduleDay(schedule: SleepSchedule, date: Date): SleepScheduleDay {
+  switch (schedule.type) {
+    case 'fixed':
+      return schedule.day;
+    case 'weekly':
+      return schedule.days[date.getDay()] ?? DEFAULT_SCHEDULE_DAY;
+    case 'rotating': {
+      if (schedule.days.length === 0) return DEFAULT_SCHEDULE_DAY;
+      // Rounded, since a day across a DST change is not exactly 24 hours
+      const elapsedDays = Math.round(
+        (startOfDay(date).getTime() - parseScheduleDate(schedule.startDate).getTime()) / (24 * 60 * 60 * 1000)
+      );
+      const length = schedule.days.length;
+      return schedule.days[((elapsedDays % length) + length) % length];
+    }
+  }
+}
+
+// Checks today's window and the tail of yesterday's if it ran past midnight
+function isInScheduledWindow(
+  schedule: SleepSchedule,
+  date: Date,
+  pick: (day: SleepScheduleDay) => SleepWindow | null
+): boolean {
+  const minutes = toMinutesOfDay(date);
+
+  const today = pick(getScheduleDay(schedule, date));
+  if (today) {
+    const inToday = today.start <= today.end
+      ? minutes >= today.start && minutes < today.end
+      : minutes >= today.start;
+    if (inToday) return true;
+  }
+
+  const yesterday = pick(getScheduleDay(schedule, startOfDay(date, -1)));
+  return !!yesterday && yesterday.end < yesterday.start && minutes < yesterday.end;
+}
+
+export function isInSleepWindow(schedule: SleepSchedule, date: Date): boolean {
+  return isInScheduledWindow(schedule, date, day => day.sleep);
+}
+
+// Nap time never counts inside main sleep, even if the two windows overlap.
+// lead and trail (in milliseconds) widen the nap window on either side.
+export function isInNapTime(schedule: SleepSchedule, date: Date, lead = 0, trail = 0): boolean {
+  if (isInSleepWindow(schedule, date)) return false;
+
+  return isInScheduledWindow(schedule, date, day => day.nap && {
+    start: (day.nap.start - lead / 60000 + MINUTES_PER_DAY) % MINUTES_PER_DAY,
+    end: (day.nap.end + trail / 60000) % MINUTES_PER_DAY,
+  });
+}
+
+// The sleep window in progress at `now`, or the next one to start
+export function getNextSleepWindow(schedule: SleepSchedule, now: Date): { start: Date; end: Date } {
+  for (let offset = -1; offset <= 7; offset++) {
+    const day = startOfDay(now, offset);
+    const { sleep } = getScheduleDay(schedule, day);
+    const start = new Date(day);
+    start.setMinutes(sleep.start);
+    const end = new Date(start);
+    end.setMinutes(end.getMinutes() + getWindowDuration(sleep));
+
+    if (end.getTime() > now.getTime()) {
+      return { start, end };
+    }
+  }
+
+  throw new Error('Sleep schedule has no upcoming window');
+}
+
+// Start of the next sleep window once it is close enough to remind about
+export function getDueBedtimeReminder(schedule: SleepSchedule, now: Date): Date | null {
+  const { start } = getNextSleepWindow(schedule, now);
+  const untilStart = start.getTime() - now.getTime();
+  return untilStart > 0 && untilStart <= BEDTIME_REMINDER_LEAD ? start : null;
+}
+
+// Minutes between a bedtime and the closest scheduled start of sleep
+export function getBedtimeOffset(schedule: SleepSchedule, bedtime: Date): number {
+  const candidates = [-1, 0, 1].map(offset => {
+    const day = startOfDay(bedtime, offset);
+    const start = new Date(day);
+    start.setMinutes(getScheduleDay(schedule, day).sleep.start);
+    return (bedtime.getTime() - start.getTime()) / (60 * 1000);
+  });
+
+  return candidates.reduce((closest, offset) => (Math.abs(offset) < Math.abs(closest) ? offset : closest));
+}
+
+// Scores how steadily bedtimes follow the schedule. Measuring against each
+// day's scheduled start keeps rotating shifts from counting as irregular.
+export function calculateConsistencyScore(bedtimes: Date[], schedule: SleepSchedule): number {
+  if (bedtimes.length < 2) return 0;
+
+  const offsets = bedtimes.map(bedtime => getBedtimeOffset(schedule, bedtime));
+  const mean = offsets.reduce((sum, offset) => sum + offset, 0) / offsets.length;
+  const variance = offsets.reduce((sum, offset) => sum + Math.pow(offset - mean, 2), 0) / offsets.length;
+  const stdDev = Math.sqrt(variance);
+
+  // Convert to consistency score (lower std dev = higher consistency)
+  const consistency = Math.max(0, (MAX_CONSISTENCY_STD_DEV - stdDev) / MAX_CONSISTENCY_STD_DEV) * 100;
+  return Math.round(consistency);
+}
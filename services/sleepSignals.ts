@@ -0,0 +1,157 @@
+import {
+  AppVisibility,
+  DetectionThresholds,
+  PowerState,
+  SleepSchedule,
+  SleepSignalContributions,
+} from '@/types/sleep';
+import { isInNapTime, isInSleepWindow } from './sleepSchedule';
+
+// Everything a provider may look at for one detection pass. The window covers
+// the time since the previous pass; providers that buffer their own readings
+// should only consider readings inside it.
+export interface SleepSignalContext {
+  window: { start: Date; end: Date };
+  inactivityDuration: number;
+  recentMotionLevel: number; // 0 = still, 1 = at or above the motion threshold
+  powerState: PowerState;
+  lastPowerTransition: { state: PowerState; at: Date } | null;
+  appState: AppVisibility;
+  thresholds: DetectionThresholds;
+  schedule: SleepSchedule;
+}
+
+// score runs from -1 (clearly awake) to 1 (clearly asleep); weight is the
+// most the signal can move the sleep probability
+export interface SleepSignalReading {
+  score: number;
+  weight: number;
+}
+
+export interface SleepSignal {
+  id: string;
+  label: string; // shown in the detection log
+  // null means the provider has nothing to say for this window
+  read(context: SleepSignalContext): SleepSignalReading | null;
+  // Called when tracking starts and stops, for providers with their own sensor
+  start?(): Promise<void> | void;
+  stop?(): void;
+}
+
+export interface SignalFusionOptions {
+  weights: Record<string, number>; // overrides a provider's own weight
+  disabled: string[];
+}
+
+export interface SignalFusionResult {
+  probability: number;
+  contributions: SleepSignalContributions;
+}
+
+export const DEFAULT_SIGNAL_FUSION: SignalFusionOptions = {
+  weights: {},
+  disabled: [],
+};
+
+const POWER_TRANSITION_WINDOW = 30 * 60 * 1000; // 30 minutes
+
+const clampScore = (score: number): number => Math.max(-1, Math.min(score, 1));
+
+export const inactivitySignal: SleepSignal = {
+  id: 'inactivity',
+  label: 'Inactividad',
+  read: ({ inactivityDuration, thresholds }) => ({
+    score: Math.min(inactivityDuration / thresholds.inactivityThreshold, 1),
+    weight: 0.4,
+  }),
+};
+
+export const timeOfDaySignal: SleepSignal = {
+  id: 'timeOfDay',
+  label: 'Hora',
+  read: ({ window, schedule }) => {
+    let score = 0;
+    if (isInSleepWindow(schedule, window.end)) {
+      score = 1;
+    } else if (isInNapTime(schedule, window.end)) {
+      score = 0.5;
+    }
+    return { score, weight: 0.3 };
+  },
+};
+
+export const motionSignal: SleepSignal = {
+  id: 'motion',
+  label: 'Movimiento',
+  read: ({ recentMotionLevel }) => ({ score: 1 - recentMotionLevel, weight: 0.2 }),
+};
+
+// Phones are usually plugged in on the nightstand
+export const chargingSignal: SleepSignal = {
+  id: 'charging',
+  label: 'Carga',
+  read: ({ powerState }) => ({ score: powerState === 'charging' ? 1 : 0, weight: 0.1 }),
+};
+
+// Plugging in suggests going to bed, unplugging suggests getting up. The
+// effect fades out over the transition window.
+export const batteryTransitionSignal: SleepSignal = {
+  id: 'batteryTransition',
+  label: 'Conexión',
+  read: ({ lastPowerTransition, window }) => {
+    if (!lastPowerTransition) return { score: 0, weight: 0.1 };
+
+    const elapsed = window.end.getTime() - lastPowerTransition.at.getTime();
+    const remaining = Math.max(0, 1 - elapsed / POWER_TRANSITION_WINDOW);
+    const direction = lastPowerTransition.state === 'charging' ? 1 : -1;
+    return { score: direction * remaining, weight: 0.1 };
+  },
+};
+
+// An app in the foreground means the screen is on and someone is using it
+export const appStateSignal: SleepSignal = {
+  id: 'appState',
+  label: 'App abierta',
+  read: ({ appState }) => ({ score: appState === 'active' ? -1 : 0, weight: 0.3 }),
+};
+
+export const BUILT_IN_SIGNALS: SleepSignal[] = [
+  inactivitySignal,
+  timeOfDaySignal,
+  motionSignal,
+  chargingSignal,
+  batteryTransitionSignal,
+  appStateSignal,
+];
+
+// Sums each provider's weighted score and clamps the total to a probability.
+// A provider that throws is left out of the pass rather than failing it.
+export function fuseSignals(
+  signals: SleepSignal[],
+  context: SleepSignalContext,
+  options: SignalFusionOptions = DEFAULT_SIGNAL_FUSION
+): SignalFusionResult {
+  const contributions: SleepSignalContributions = {};
+
+  signals.forEach(signal => {
+    if (options.disabled.includes(signal.id)) return;
+
+    let reading: SleepSignalReading | null;
+    try {
+      reading = signal.read(context);
+    } catch (error) {
+      console.error(`Sleep signal ${signal.id} failed:`, error);
+      return;
+    }
+    if (!reading) return;
+
+    const weight = options.weights[signal.id] ?? reading.weight;
+    contributions[signal.id] = clampScore(reading.score) * weight;
+  });
+
+  const total = Object.values(contributions).reduce((sum, value) => sum + value, 0);
+  return {
+    probability: Math.max(0, Math.min(total, 1)),
+    contributions,
+  };
+}
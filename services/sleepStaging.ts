@@ -0,0 +1,179 @@
+import { ActivityEpoch, DeviceMotionData, Hypnogram, SleepStage } from '@/types/sleep';
+
+export const EPOCH_DURATION = 30 * 1000; // 30 seconds
+
+// Mean acceleration (m/s²) is scaled into actigraphy-style counts so that the
+// detection MOTION_THRESHOLD (0.1) lands on the Cole-Kripke decision boundary.
+const ACTIVITY_COUNT_SCALE = 300;
+
+// Cole-Kripke weights for 30-second epochs (A-4 ... A+2)
+const COLE_KRIPKE_SCALE = 0.0001;
+const COLE_KRIPKE_WEIGHTS = [50, 30, 14, 28, 121, 8, 50];
+const COLE_KRIPKE_OFFSET = 4; // index of A0 in the weights
+
+// Webster rescoring: after 4 minutes of wake, the next minute of sleep is wake
+const RESCORE_WAKE_EPOCHS = 8;
+const RESCORE_SLEEP_EPOCHS = 2;
+
+// Stage heuristics over a ±5 epoch window around each sleep epoch
+const STAGE_WINDOW = 5;
+const DEEP_MAX_COUNTS = 3;
+const REM_TWITCH_MIN_COUNTS = 3;
+const REM_MAX_COUNTS = 20;
+const REM_MIN_TWITCHES = 2;
+const REM_EARLIEST_ONSET = 60 * 60 * 1000; // no REM-like sleep in the first hour
+
+const MAX_RETAINED_EPOCHS = (24 * 60 * 60 * 1000) / EPOCH_DURATION; // 24 hours
+
+export const getMotionMagnitude = (motion: DeviceMotionData): number => {
+  const { acceleration } = motion;
+  return Math.sqrt(acceleration.x ** 2 + acceleration.y ** 2 + acceleration.z ** 2);
+};
+
+// Collapses raw motion samples into fixed 30-second activity epochs so the
+// service can keep a whole night of motion without holding every sample.
+export class ActivityEpochRecorder {
+  private epochs: ActivityEpoch[] = [];
+  private pendingStart: number | null = null;
+  private pendingTotal = 0;
+  private pendingCount = 0;
+
+  add(motion: DeviceMotionData): void {
+    const epochStart = Math.floor(motion.timestamp / EPOCH_DURATION) * EPOCH_DURATION;
+
+    if (this.pendingStart !== null && epochStart !== this.pendingStart) {
+      this.flushPending();
+    }
+
+    this.pendingStart = epochStart;
+    this.pendingTotal += getMotionMagnitude(motion);
+    this.pendingCount += 1;
+  }
+
+  getEpochs(from: number, to: number): ActivityEpoch[] {
+    const pendingEnd = (this.pendingStart ?? 0) + EPOCH_DURATION;
+    if (this.pendingStart !== null && pendingEnd <= to) {
+      this.flushPending();
+    }
+
+    return this.epochs.filter(epoch => epoch.start >= from && epoch.start < to);
+  }
+
+  // Puts back epochs from a checkpoint, keeping anything recorded since
+  restore(epochs: ActivityEpoch[]): void {
+    const known = new Set(this.epochs.map(epoch => epoch.start));
+    this.epochs = [...epochs.filter(epoch => !known.has(epoch.start)), ...this.epochs]
+      .sort((a, b) => a.start - b.start);
+  }
+
+  clear(): void {
+    this.epochs = [];
+    this.pendingStart = null;
+    this.pendingTotal = 0;
+    this.pendingCount = 0;
+  }
+
+  private flushPending(): void {
+    if (this.pendingStart === null || this.pendingCount === 0) return;
+
+    this.epochs.push({
+      start: this.pendingStart,
+      activity: this.pendingTotal / this.pendingCount,
+    });
+    if (this.epochs.length > MAX_RETAINED_EPOCHS) {
+      this.epochs.splice(0, this.epochs.length - MAX_RETAINED_EPOCHS);
+    }
+
+    this.pendingStart = null;
+    this.pendingTotal = 0;
+    this.pendingCount = 0;
+  }
+}
+
+// Lays the recorded epochs onto a contiguous grid from startTime to endTime.
+// Epochs without samples count as no activity.
+const toActivityCounts = (epochs: ActivityEpoch[], startTime: number, endTime: number): number[] => {
+  const firstEpoch = Math.floor(startTime / EPOCH_DURATION) * EPOCH_DURATION;
+  const epochCount = Math.max(0, Math.ceil((endTime - firstEpoch) / EPOCH_DURATION));
+  const counts = new Array<number>(epochCount).fill(0);
+
+  epochs.forEach(epoch => {
+    const index = Math.floor((epoch.start - firstEpoch) / EPOCH_DURATION);
+    if (index >= 0 && index < epochCount) {
+      counts[index] = epoch.activity * ACTIVITY_COUNT_SCALE;
+    }
+  });
+
+  return counts;
+};
+
+const scoreSleepWake = (counts: number[]): boolean[] => {
+  const asleep = counts.map((_, index) => {
+    const weighted = COLE_KRIPKE_WEIGHTS.reduce((sum, weight, offset) => {
+      const count = counts[index + offset - COLE_KRIPKE_OFFSET] ?? 0;
+      return sum + weight * count;
+    }, 0);
+    return COLE_KRIPKE_SCALE * weighted < 1;
+  });
+
+  let wakeRun = 0;
+  let rescoreRemaining = 0;
+  for (let i = 0; i < asleep.length; i++) {
+    if (!asleep[i]) {
+      wakeRun += 1;
+      rescoreRemaining = 0;
+      continue;
+    }
+
+    if (wakeRun >= RESCORE_WAKE_EPOCHS) {
+      rescoreRemaining = RESCORE_SLEEP_EPOCHS;
+    }
+    wakeRun = 0;
+
+    if (rescoreRemaining > 0) {
+      asleep[i] = false;
+      rescoreRemaining -= 1;
+    }
+  }
+
+  return asleep;
+};
+
+const classifySleepEpoch = (counts: number[], index: number, msSinceOnset: number): SleepStage => {
+  const window = counts.slice(
+    Math.max(0, index - STAGE_WINDOW),
+    Math.min(counts.length, index + STAGE_WINDOW + 1)
+  );
+  const windowMax = Math.max(...window);
+
+  if (windowMax < DEEP_MAX_COUNTS) {
+    return 'deep';
+  }
+
+  const twitches = window.filter(count => count >= REM_TWITCH_MIN_COUNTS && count < REM_MAX_COUNTS).length;
+  if (msSinceOnset >= REM_EARLIEST_ONSET && windowMax < REM_MAX_COUNTS && twitches >= REM_MIN_TWITCHES) {
+    return 'rem';
+  }
+
+  return 'light';
+};
+
+// Scores a session with Cole-Kripke (sleep vs wake) and then splits sleep into
+// light, deep and REM-like stages from the local movement pattern. Actigraphy
+// cannot see brain activity, so the stages are estimates, not polysomnography.
+export function scoreHypnogram(epochs: ActivityEpoch[], startTime: number, endTime: number): Hypnogram {
+  const counts = toActivityCounts(epochs, startTime, endTime);
+  const asleep = scoreSleepWake(counts);
+  const onsetIndex = asleep.indexOf(true);
+
+  const stages: SleepStage[] = asleep.map((isAsleep, index) => {
+    if (!isAsleep) return 'awake';
+    return classifySleepEpoch(counts, index, (index - onsetIndex) * EPOCH_DURATION);
+  });
+
+  return {
+    startTime: new Date(Math.floor(startTime / EPOCH_DURATION) * EPOCH_DURATION),
+    epochDuration: EPOCH_DURATION,
+    stages,
+  };
+}
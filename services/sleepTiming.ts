@@ -0,0 +1,79 @@
+import { ActivityEpoch, SleepSession } from '@/types/sleep';
+import { scoreHypnogram } from './sleepStaging';
+
+// Sleep onset is the start of the first 10 minutes of continuous sleep, so a
+// few still epochs while lying awake don't count as falling asleep.
+const PERSISTENT_SLEEP_EPOCHS = 20;
+
+export interface SleepTimingEstimate {
+  sleepOnset: Date;
+  finalAwakening: Date;
+}
+
+// Scores the whole in-bed period and finds when sleep started and ended.
+// Returns null if no sleep was scored at all.
+export function estimateSleepTiming(
+  epochs: ActivityEpoch[],
+  inBedTime: Date,
+  outOfBedTime: Date
+): SleepTimingEstimate | null {
+  const { startTime, epochDuration, stages } = scoreHypnogram(
+    epochs,
+    inBedTime.getTime(),
+    outOfBedTime.getTime()
+  );
+
+  const firstSleep = stages.findIndex(stage => stage !== 'awake');
+  if (firstSleep < 0) return null;
+
+  let onsetIndex = firstSleep;
+  let run = 0;
+  for (let i = firstSleep; i < stages.length; i++) {
+    run = stages[i] === 'awake' ? 0 : run + 1;
+    if (run === PERSISTENT_SLEEP_EPOCHS) {
+      onsetIndex = i - PERSISTENT_SLEEP_EPOCHS + 1;
+      break;
+    }
+  }
+
+  let lastSleep = stages.length - 1;
+  while (stages[lastSleep] === 'awake') lastSleep--;
+
+  const epochTime = (index: number) => startTime.getTime() + index * epochDuration;
+  return {
+    sleepOnset: new Date(Math.max(epochTime(onsetIndex), inBedTime.getTime())),
+    finalAwakening: new Date(Math.min(epochTime(lastSleep + 1), outOfBedTime.getTime())),
+  };
+}
+
+// Sessions without the detailed timestamps fall back to bedtime and wake
+// time, which makes time in bed and time asleep the same.
+export function getTimeInBed(session: SleepSession): number {
+  const inBed = session.inBedTime ?? session.bedtime;
+  const outOfBed = session.outOfBedTime ?? session.wakeTime;
+  if (!outOfBed) return 0;
+
+  return Math.max(0, outOfBed.getTime() - inBed.getTime());
+}
+
+export function getTimeAsleep(session: SleepSession): number {
+  const onset = session.sleepOnset ?? session.bedtime;
+  const finalAwakening = session.finalAwakening ?? session.wakeTime;
+  if (!finalAwakening) return 0;
+
+  const asleep = finalAwakening.getTime() - onset.getTime() - (session.wakeAfterSleepOnset ?? 0);
+  return Math.max(0, asleep);
+}
+
+export function getSleepOnsetLatency(session: SleepSession): number | null {
+  if (!session.inBedTime || !session.sleepOnset) return null;
+  return Math.max(0, session.sleepOnset.getTime() - session.inBedTime.getTime());
+}
+
+// Time asleep over time in bed, 0-100
+export function getSleepEfficiency(session: SleepSession): number | null {
+  const timeInBed = getTimeInBed(session);
+  if (timeInBed <= 0) return null;
+
+  return Math.min(100, (getTimeAsleep(session) / timeInBed) * 100);
+}
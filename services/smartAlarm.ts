@@ -0,0 +1,69 @@
+import { ActivityEpoch, AlarmTrigger, SleepStage, SmartAlarm } from '@/types/sleep';
+import { scoreHypnogram } from './sleepStaging';
+
+export const ALARM_WINDOW_OPTIONS = [15, 30, 45]; // minutes
+export const DEFAULT_SNOOZE_MINUTES = 9;
+
+// Live staging scores the last few minutes of epochs. Cole-Kripke looks two
+// epochs ahead, so the newest epochs are skipped until that context exists.
+const LIVE_STAGING_WINDOW = 10 * 60 * 1000; // 10 minutes
+const LOOKAHEAD_EPOCHS = 2;
+
+const WAKEABLE_STAGES: SleepStage[] = ['light', 'awake'];
+
+// Next occurrence of hour:minute after now
+export function getNextWakeTime(hour: number, minute: number, now: Date): Date {
+  const wakeTime = new Date(now);
+  wakeTime.setHours(hour, minute, 0, 0);
+  if (wakeTime.getTime() <= now.getTime()) {
+    wakeTime.setDate(wakeTime.getDate() + 1);
+  }
+  return wakeTime;
+}
+
+export function createSmartAlarm(
+  latestWakeTime: Date,
+  windowMinutes: number,
+  snoozeMinutes: number = DEFAULT_SNOOZE_MINUTES
+): SmartAlarm {
+  return {
+    id: latestWakeTime.getTime().toString(),
+    latestWakeTime,
+    windowMinutes,
+    snoozeMinutes,
+  };
+}
+
+export function getAlarmWindowStart(alarm: SmartAlarm): Date {
+  return new Date(alarm.latestWakeTime.getTime() - alarm.windowMinutes * 60 * 1000);
+}
+
+export function getLiveSleepStage(epochs: ActivityEpoch[], now: Date): SleepStage | null {
+  const from = now.getTime() - LIVE_STAGING_WINDOW;
+  const { stages } = scoreHypnogram(epochs, from, now.getTime());
+  return stages[stages.length - 1 - LOOKAHEAD_EPOCHS] ?? null;
+}
+
+// Decides whether the alarm should ring now. A fired alarm stays silent
+// until it is snoozed (and the snooze runs out) or dismissed.
+export function evaluateSmartAlarm(
+  alarm: SmartAlarm,
+  now: Date,
+  stage: SleepStage | null
+): AlarmTrigger | null {
+  if (alarm.snoozedUntil) {
+    return now.getTime() >= alarm.snoozedUntil.getTime() ? 'snooze' : null;
+  }
+
+  if (alarm.lastFired) return null;
+
+  if (now.getTime() >= alarm.latestWakeTime.getTime()) {
+    return 'deadline';
+  }
+
+  if (now.getTime() >= getAlarmWindowStart(alarm).getTime() && stage && WAKEABLE_STAGES.includes(stage)) {
+    return 'light-sleep';
+  }
+
+  return null;
+}
@@ -0,0 +1,9 @@
+import { SleepRepository } from './sleepRepository';
+import { AsyncStorageSleepRepository } from './asyncStorageRepository';
+import { SQLiteSleepRepository } from './sqliteRepository';
+
+// Kept apart from storageConfig.ts so only native bundles include expo-sqlite;
+// see sqliteBackend.web.ts
+export function createSQLiteRepository(): SleepRepository {
+  return new SQLiteSleepRepository('sleep.db', new AsyncStorageSleepRepository());
+}
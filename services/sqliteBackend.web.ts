@@ -0,0 +1,8 @@
+import { SleepRepository } from './sleepRepository';
+import { InMemorySleepRepository } from './memoryRepository';
+
+// expo-sqlite's web build needs a WebAssembly worker this app doesn't ship,
+// so web previews configured for SQLite keep their data in memory
+export function createSQLiteRepository(): SleepRepository {
+  return new InMemorySleepRepository();
+}
@@ -0,0 +1,172 @@
+import * as SQLite from 'expo-sqlite';
+import { DetectionLogEntry, SessionActigraphy, SleepSession } from '@/types/sleep';
+import { SessionRange, SleepRecordName, SleepRecords, SleepRepository, copySleepData } from './sleepRepository';
+import { reviveActigraphy, reviveLogEntry, reviveRecord, reviveSession } from './storageSerialization';
+
+// Tables by schema version, tracked in PRAGMA user_version. Rows keep the
+// record as JSON; only what is queried on gets its own column.
+const SCHEMA: { version: number; statements: string }[] = [
+  {
+    version: 1,
+    statements: `
+      CREATE TABLE IF NOT EXISTS sessions (id TEXT PRIMARY KEY NOT NULL, bedtime INTEGER NOT NULL, data TEXT NOT NULL);
+      CREATE INDEX IF NOT EXISTS sessions_bedtime ON sessions (bedtime);
+      CREATE TABLE IF NOT EXISTS actigraphy (session_id TEXT PRIMARY KEY NOT NULL, data TEXT NOT NULL);
+      CREATE TABLE IF NOT EXISTS detection_logs (night TEXT PRIMARY KEY NOT NULL, entries TEXT NOT NULL);
+      CREATE TABLE IF NOT EXISTS records (name TEXT PRIMARY KEY NOT NULL, data TEXT NOT NULL);
+    `,
+  },
+];
+
+// For long histories: range reads use the bedtime index instead of loading
+// whole months. A new database starts with a copy of what importFrom, the
+// backend used until now, keeps.
+export class SQLiteSleepRepository implements SleepRepository {
+  private database: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  constructor(
+    private databaseName = 'sleep.db',
+    private importFrom: SleepRepository | null = null
+  ) {}
+
+  private getDatabase(): Promise<SQLite.SQLiteDatabase> {
+    const database = this.database ?? SQLite.openDatabaseAsync(this.databaseName);
+    this.database = database;
+    return database;
+  }
+
+  async migrate(): Promise<void> {
+    const database = await this.getDatabase();
+    const row = await database.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    const current = row?.user_version ?? 0;
+    const pending = SCHEMA.filter(step => step.version > current);
+    if (pending.length === 0) return;
+
+    const importFrom = current === 0 ? this.importFrom : null;
+    if (importFrom) {
+      await importFrom.migrate();
+    }
+
+    // A failed import rolls back the schema too, so it is tried again on the
+    // next launch. PRAGMA takes no parameters; the version is one of ours.
+    await database.withTransactionAsync(async () => {
+      for (const step of pending) {
+        await database.execAsync(step.statements);
+      }
+      if (importFrom) {
+        await copySleepData(importFrom, this);
+      }
+      await database.execAsync(`PRAGMA user_version = ${pending[pending.length - 1].version}`);
+    });
+  }
+
+  async saveSession(session: SleepSession): Promise<void> {
+    const database = await this.getDatabase();
+    await database.runAsync(
+      'INSERT OR REPLACE INTO sessions (id, bedtime, data) VALUES (?, ?, ?)',
+      [session.id, session.bedtime.getTime(), JSON.stringify(session)]
+    );
+  }
+
+  async getSession(id: string): Promise<SleepSession | null> {
+    const database = await this.getDatabase();
+    const row = await database.getFirstAsync<{ data: string }>('SELECT data FROM sessions WHERE id = ?', [id]);
+    return row ? reviveSession(JSON.parse(row.data)) : null;
+  }
+
+  async getSessions(range: SessionRange = {}): Promise<SleepSession[]> {
+    const database = await this.getDatabase();
+    const rows = await database.getAllAsync<{ data: string }>(
+      'SELECT data FROM sessions WHERE bedtime >= ? AND bedtime <= ? ORDER BY bedtime',
+      [range.start?.getTime() ?? Number.MIN_SAFE_INTEGER, range.end?.getTime() ?? Number.MAX_SAFE_INTEGER]
+    );
+    return rows.map((row: { data: string }) => reviveSession(JSON.parse(row.data)));
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    const database = await this.getDatabase();
+    await database.runAsync('DELETE FROM sessions WHERE id = ?', [id]);
+  }
+
+  async saveActigraphy(actigraphy: SessionActigraphy): Promise<void> {
+    const database = await this.getDatabase();
+    await database.runAsync(
+      'INSERT OR REPLACE INTO actigraphy (session_id, data) VALUES (?, ?)',
+      [actigraphy.sessionId, JSON.stringify(actigraphy)]
+    );
+  }
+
+  async getActigraphy(sessionId: string): Promise<SessionActigraphy | null> {
+    const database = await this.getDatabase();
+    const row = await database.getFirstAsync<{ data: string }>(
+      'SELECT data FROM actigraphy WHERE session_id = ?',
+      [sessionId]
+    );
+    return row ? reviveActigraphy(JSON.parse(row.data)) : null;
+  }
+
+  async deleteActigraphy(sessionId: string): Promise<void> {
+    const database = await this.getDatabase();
+    await database.runAsync('DELETE FROM actigraphy WHERE session_id = ?', [sessionId]);
+  }
+
+  async saveDetectionLog(night: string, entries: DetectionLogEntry[]): Promise<void> {
+    const database = await this.getDatabase();
+    await database.runAsync(
+      'INSERT OR REPLACE INTO detection_logs (night, entries) VALUES (?, ?)',
+      [night, JSON.stringify(entries)]
+    );
+  }
+
+  async getDetectionLog(night: string): Promise<DetectionLogEntry[]> {
+    const database = await this.getDatabase();
+    const row = await database.getFirstAsync<{ entries: string }>(
+      'SELECT entries FROM detection_logs WHERE night = ?',
+      [night]
+    );
+    return row ? JSON.parse(row.entries).map(reviveLogEntry) : [];
+  }
+
+  async getDetectionLogNights(): Promise<string[]> {
+    const database = await this.getDatabase();
+    const rows = await database.getAllAsync<{ night: string }>('SELECT night FROM detection_logs ORDER BY night DESC');
+    return rows.map((row: { night: string }) => row.night);
+  }
+
+  async deleteDetectionLogs(nights: string[]): Promise<void> {
+    if (nights.length === 0) return;
+
+    const database = await this.getDatabase();
+    await database.runAsync(
+      `DELETE FROM detection_logs WHERE night IN (${nights.map(() => '?').join(', ')})`,
+      nights
+    );
+  }
+
+  async saveRecord<K extends SleepRecordName>(name: K, value: SleepRecords[K] | null): Promise<void> {
+    const database = await this.getDatabase();
+    if (value === null) {
+      await database.runAsync('DELETE FROM records WHERE name = ?', [name]);
+    } else {
+      await database.runAsync(
+        'INSERT OR REPLACE INTO records (name, data) VALUES (?, ?)',
+        [name, JSON.stringify(value)]
+      );
+    }
+  }
+
+  async getRecord<K extends SleepRecordName>(name: K): Promise<SleepRecords[K] | null> {
+    const database = await this.getDatabase();
+    const row = await database.getFirstAsync<{ data: string }>('SELECT data FROM records WHERE name = ?', [name]);
+    return row ? reviveRecord(name, JSON.parse(row.data)) : null;
+  }
+
+  // Keeps the tracking flag, like the other backends
+  async clear(): Promise<void> {
+    const database = await this.getDatabase();
+    await database.withTransactionAsync(async () => {
+      await database.execAsync('DELETE FROM sessions; DELETE FROM actigraphy; DELETE FROM detection_logs;');
+      await database.runAsync('DELETE FROM records WHERE name != ?', ['trackingStatus']);
+    });
+  }
+}
@@ -1,78 +1,128 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { SleepSession, SleepSettings } from '@/types/sleep';
+import {
+  DetectionCheckpoint,
+  DetectionLogEntry,
+  JetLagTrip,
+  MotionBaseline,
+  SessionActigraphy,
+  SessionOverlapPolicy,
+  SleepSession,
+  SleepSettings,
+  SmartAlarm,
+} from '@/types/sleep';
+import { DEFAULT_SLEEP_SCHEDULE, calculateConsistencyScore } from './sleepSchedule';
+import { getLocalDayKey, getSessionDayKey } from './timeZones';
+import { MAX_LOG_ENTRIES_PER_NIGHT, MAX_LOGGED_NIGHTS } from './detectionLog';
+import { SleepRepository } from './sleepRepository';
+import { createSleepRepository } from './storageConfig';
+import { SessionValidationError } from './sessionValidation';
+import { storeSleepSession } from './sessionWrites';
+import { WriteQueue } from './writeQueue';
 
 class StorageService {
-  private static readonly SLEEP_SESSIONS_KEY = 'sleep_sessions';
-  private static readonly SETTINGS_KEY = 'sleep_settings';
+  private static repository: SleepRepository = createSleepRepository();
+  // Every write goes through here; see writeQueue.ts
+  private static writes = new WriteQueue();
 
-  static async saveSleepSession(session: SleepSession): Promise<void> {
+  // Swaps the backend, e.g. for an in-memory one holding test fixtures
+  static useRepository(repository: SleepRepository): void {
+    this.repository = repository;
+  }
+
+  // Runs once at startup, before anything reads storage. A failed migration
+  // is logged and the app carries on with the data as it was.
+  static async migrate(): Promise<void> {
     try {
-      const existingSessions = await this.getSleepSessions();
-      const sessionIndex = existingSessions.findIndex(s => s.id === session.id);
-      
-      if (sessionIndex >= 0) {
-        existingSessions[sessionIndex] = session;
-      } else {
-        existingSessions.push(session);
-      }
-      
-      await AsyncStorage.setItem(
-        this.SLEEP_SESSIONS_KEY,
-        JSON.stringify(existingSessions)
-      );
+      await this.writes.run(() => this.repository.migrate());
     } catch (error) {
-      console.error('Failed to save sleep session:', error);
+      console.error('Failed to migrate storage:', error);
+    }
+  }
+
+  // Validates the session and applies the overlap policy; see sessionWrites.ts.
+  // Returns the session as stored, which differs after a merge.
+  static async saveSleepSession(
+    session: SleepSession,
+    overlapPolicy: SessionOverlapPolicy = 'reject'
+  ): Promise<SleepSession> {
+    // The overlap check reads what is stored, so it is queued with the write
+    return this.writes.run(() => this.writeSleepSession(session, overlapPolicy));
+  }
+
+  private static async writeSleepSession(
+    session: SleepSession,
+    overlapPolicy: SessionOverlapPolicy
+  ): Promise<SleepSession> {
+    try {
+      return await storeSleepSession(this.repository, session, overlapPolicy);
+    } catch (error) {
+      // Rejections are for the caller to act on; only failures are logged
+      if (!(error instanceof SessionValidationError)) {
+        console.error('Failed to save sleep session:', error);
+      }
       throw error;
     }
   }
 
   static async getSleepSessions(): Promise<SleepSession[]> {
     try {
-      const sessionsJson = await AsyncStorage.getItem(this.SLEEP_SESSIONS_KEY);
-      if (!sessionsJson) return [];
-      
-      const sessions = JSON.parse(sessionsJson);
-      return sessions.map((session: any) => ({
-        ...session,
-        bedtime: new Date(session.bedtime),
-        wakeTime: session.wakeTime ? new Date(session.wakeTime) : null,
-        createdAt: session.createdAt ? new Date(session.createdAt) : undefined,
-        updatedAt: session.updatedAt ? new Date(session.updatedAt) : undefined,
-      }));
+      return await this.repository.getSessions();
     } catch (error) {
       console.error('Failed to get sleep sessions:', error);
       return [];
     }
   }
 
+  // Sessions that started between start and end (open-ended without one);
+  // backends only read the part of the history the range covers
+  static async getSleepSessionsInRange(start: Date, end?: Date): Promise<SleepSession[]> {
+    try {
+      return await this.repository.getSessions({ start, end });
+    } catch (error) {
+      console.error('Failed to get sleep sessions in range:', error);
+      return [];
+    }
+  }
+
+  static async getSleepSession(sessionId: string): Promise<SleepSession | null> {
+    try {
+      return await this.repository.getSession(sessionId);
+    } catch (error) {
+      console.error('Failed to get sleep session:', error);
+      return null;
+    }
+  }
+
   static async getWeeklySleepSessions(): Promise<SleepSession[]> {
-    const sessions = await this.getSleepSessions();
     const oneWeekAgo = new Date();
     oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
     
-    return sessions.filter(session => 
-      new Date(session.bedtime) >= oneWeekAgo
-    );
+    return this.getSleepSessionsInRange(oneWeekAgo);
   }
 
   static async getMonthlySleepSessions(): Promise<SleepSession[]> {
-    const sessions = await this.getSleepSessions();
     const oneMonthAgo = new Date();
     oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
     
-    return sessions.filter(session => 
-      new Date(session.bedtime) >= oneMonthAgo
-    );
+    return this.getSleepSessionsInRange(oneMonthAgo);
   }
 
   static async getYearlySleepSessions(): Promise<SleepSession[]> {
-    const sessions = await this.getSleepSessions();
     const oneYearAgo = new Date();
     oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
     
-    return sessions.filter(session => 
-      new Date(session.bedtime) >= oneYearAgo
+    return this.getSleepSessionsInRange(oneYearAgo);
+  }
+
+  // Sessions that started on the given day, as the clock read where each was recorded
+  static async getSleepSessionsForDay(date: Date = new Date()): Promise<SleepSession[]> {
+    // Zones differ from this device by at most a day either way
+    const dayMs = 24 * 60 * 60 * 1000;
+    const sessions = await this.getSleepSessionsInRange(
+      new Date(date.getTime() - 2 * dayMs),
+      new Date(date.getTime() + 2 * dayMs)
     );
+    const day = getLocalDayKey(date);
+    return sessions.filter(session => getSessionDayKey(session) === day);
   }
 
   static async getAllSleepSessions(): Promise<SleepSession[]> {
@@ -81,27 +131,99 @@ class StorageService {
 
   static async deleteSleepSession(sessionId: string): Promise<void> {
     try {
-      const sessions = await this.getSleepSessions();
-      const filteredSessions = sessions.filter(session => session.id !== sessionId);
-      
-      await AsyncStorage.setItem(
-        this.SLEEP_SESSIONS_KEY,
-        JSON.stringify(filteredSessions)
-      );
+      await this.writes.run(async () => {
+        await this.repository.deleteSession(sessionId);
+        await this.repository.deleteActigraphy(sessionId);
+      });
     } catch (error) {
       console.error('Failed to delete sleep session:', error);
       throw error;
     }
   }
 
+  static async getPendingReviewSessions(): Promise<SleepSession[]> {
+    const sessions = await this.getSleepSessions();
+    return sessions.filter(session => session.reviewStatus === 'pending');
+  }
+
+  static async confirmSleepSession(sessionId: string): Promise<void> {
+    await this.writes.run(async () => {
+      const session = await this.getSleepSession(sessionId);
+      if (!session) return;
+
+      // Confirming doesn't move the session, so any overlap is kept and flagged
+      await this.writeSleepSession({ ...session, reviewStatus: 'confirmed', updatedAt: new Date() }, 'keep-both');
+    });
+  }
+
+  // A rejected detection wasn't sleep at all, so it is removed
+  static async rejectSleepSession(sessionId: string): Promise<void> {
+    await this.deleteSleepSession(sessionId);
+  }
+
+  // Actigraphy is kept apart from the sessions so they stay small; it is
+  // only read when a night is redrawn or re-scored.
+  static async saveSessionActigraphy(actigraphy: SessionActigraphy): Promise<void> {
+    try {
+      await this.writes.run(() => this.repository.saveActigraphy(actigraphy));
+    } catch (error) {
+      console.error('Failed to save session actigraphy:', error);
+      throw error;
+    }
+  }
+
+  static async getSessionActigraphy(sessionId: string): Promise<SessionActigraphy | null> {
+    try {
+      return await this.repository.getActigraphy(sessionId);
+    } catch (error) {
+      console.error('Failed to get session actigraphy:', error);
+      return null;
+    }
+  }
+
+  static async deleteSessionActigraphy(sessionId: string): Promise<void> {
+    await this.writes.run(() => this.repository.deleteActigraphy(sessionId));
+  }
+
+  // The detection log is kept per night and bounded: each night keeps its
+  // latest entries and only the most recent nights are retained.
+  static async appendDetectionLog(night: string, entries: DetectionLogEntry[]): Promise<void> {
+    try {
+      await this.writes.run(async () => {
+        const existing = await this.getDetectionLog(night);
+        const combined = [...existing, ...entries].slice(-MAX_LOG_ENTRIES_PER_NIGHT);
+        await this.repository.saveDetectionLog(night, combined);
+
+        const nights = await this.getDetectionLogNights();
+        await this.repository.deleteDetectionLogs(nights.slice(MAX_LOGGED_NIGHTS));
+      });
+    } catch (error) {
+      console.error('Failed to append detection log:', error);
+      throw error;
+    }
+  }
+
+  static async getDetectionLog(night: string): Promise<DetectionLogEntry[]> {
+    try {
+      return await this.repository.getDetectionLog(night);
+    } catch (error) {
+      console.error('Failed to get detection log:', error);
+      return [];
+    }
+  }
+
+  // Nights with a detection log, newest first
+  static async getDetectionLogNights(): Promise<string[]> {
+    return this.repository.getDetectionLogNights();
+  }
+
   static async getSettings(): Promise<Partial<SleepSettings>> {
     try {
-      const settingsJson = await AsyncStorage.getItem(this.SETTINGS_KEY);
-      if (!settingsJson) {
+      const settings = await this.repository.getRecord('settings');
+      if (!settings) {
         return this.getDefaultSettings();
       }
       
-      const settings = JSON.parse(settingsJson);
       return {
         ...this.getDefaultSettings(),
         ...settings,
@@ -114,25 +236,107 @@ class StorageService {
 
   static async updateSettings(newSettings: Partial<SleepSettings>): Promise<void> {
     try {
-      const currentSettings = await this.getSettings();
-      const updatedSettings = { ...currentSettings, ...newSettings };
-      
-      await AsyncStorage.setItem(
-        this.SETTINGS_KEY,
-        JSON.stringify(updatedSettings)
-      );
+      await this.writes.run(async () => {
+        const currentSettings = await this.getSettings();
+        const updatedSettings = { ...currentSettings, ...newSettings };
+
+        await this.repository.saveRecord('settings', updatedSettings);
+      });
     } catch (error) {
       console.error('Failed to update settings:', error);
       throw error;
     }
   }
 
+  static async setTrackingStatus(isTracking: boolean): Promise<void> {
+    await this.writes.run(() => this.repository.saveRecord('trackingStatus', isTracking));
+  }
+
+  // null when tracking was never started or stopped, e.g. on first launch
+  static async getTrackingStatus(): Promise<boolean | null> {
+    return this.repository.getRecord('trackingStatus');
+  }
+
+  static async getMotionBaseline(): Promise<MotionBaseline | null> {
+    try {
+      return await this.repository.getRecord('motionBaseline');
+    } catch (error) {
+      console.error('Failed to get motion baseline:', error);
+      return null;
+    }
+  }
+
+  static async saveMotionBaseline(baseline: MotionBaseline | null): Promise<void> {
+    try {
+      await this.writes.run(() => this.repository.saveRecord('motionBaseline', baseline));
+    } catch (error) {
+      console.error('Failed to save motion baseline:', error);
+      throw error;
+    }
+  }
+
+  static async saveDetectionCheckpoint(checkpoint: DetectionCheckpoint): Promise<void> {
+    try {
+      await this.writes.run(() => this.repository.saveRecord('detectionCheckpoint', checkpoint));
+    } catch (error) {
+      console.error('Failed to save detection checkpoint:', error);
+      throw error;
+    }
+  }
+
+  static async getDetectionCheckpoint(): Promise<DetectionCheckpoint | null> {
+    try {
+      return await this.repository.getRecord('detectionCheckpoint');
+    } catch (error) {
+      console.error('Failed to get detection checkpoint:', error);
+      return null;
+    }
+  }
+
+  static async clearDetectionCheckpoint(): Promise<void> {
+    await this.writes.run(() => this.repository.saveRecord('detectionCheckpoint', null));
+  }
+
+  static async saveSmartAlarm(alarm: SmartAlarm | null): Promise<void> {
+    try {
+      await this.writes.run(() => this.repository.saveRecord('smartAlarm', alarm));
+    } catch (error) {
+      console.error('Failed to save smart alarm:', error);
+      throw error;
+    }
+  }
+
+  static async getSmartAlarm(): Promise<SmartAlarm | null> {
+    try {
+      return await this.repository.getRecord('smartAlarm');
+    } catch (error) {
+      console.error('Failed to get smart alarm:', error);
+      return null;
+    }
+  }
+
+  // Only one trip is planned at a time
+  static async saveJetLagTrip(trip: JetLagTrip | null): Promise<void> {
+    try {
+      await this.writes.run(() => this.repository.saveRecord('jetLagTrip', trip));
+    } catch (error) {
+      console.error('Failed to save jet lag trip:', error);
+      throw error;
+    }
+  }
+
+  static async getJetLagTrip(): Promise<JetLagTrip | null> {
+    try {
+      return await this.repository.getRecord('jetLagTrip');
+    } catch (error) {
+      console.error('Failed to get jet lag trip:', error);
+      return null;
+    }
+  }
+
   static async clearAllData(): Promise<void> {
     try {
-      await AsyncStorage.multiRemove([
-        this.SLEEP_SESSIONS_KEY,
-        this.SETTINGS_KEY,
-      ]);
+      await this.writes.run(() => this.repository.clear());
     } catch (error) {
       console.error('Failed to clear all data:', error);
       throw error;
@@ -146,17 +350,20 @@ class StorageService {
       batteryOptimized: true,
       sleepGoalHours: 8,
       detectionSensitivity: 'medium',
+      sustainedWakeMinutes: 20,
+      reviewConfidenceThreshold: 0.75,
+      sleepSchedule: DEFAULT_SLEEP_SCHEDULE,
     };
   }
 
   // Utility methods for data analysis
   static async getAverageSleepDuration(days: number = 7): Promise<number> {
-    const sessions = await this.getSleepSessions();
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
+    const sessions = await this.getSleepSessionsInRange(cutoffDate);
     
     const recentSessions = sessions.filter(session => 
-      new Date(session.bedtime) >= cutoffDate && session.wakeTime
+      session.wakeTime && session.kind !== 'nap' && session.reviewStatus !== 'pending'
     );
     
     if (recentSessions.length === 0) return 0;
@@ -166,31 +373,22 @@ class StorageService {
   }
 
   static async getSleepConsistency(days: number = 7): Promise<number> {
-    const sessions = await this.getSleepSessions();
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
+    const sessions = await this.getSleepSessionsInRange(cutoffDate);
     
+    // Naps are excluded: they'd count as wildly inconsistent bedtimes
     const recentSessions = sessions.filter(session => 
-      new Date(session.bedtime) >= cutoffDate && session.wakeTime
+      session.wakeTime && session.kind !== 'nap' && session.reviewStatus !== 'pending'
     );
     
     if (recentSessions.length < 2) return 0;
     
-    // Calculate standard deviation of bedtimes
-    const bedtimes = recentSessions.map(session => {
-      const bedtime = new Date(session.bedtime);
-      return bedtime.getHours() * 60 + bedtime.getMinutes();
-    });
-    
-    const mean = bedtimes.reduce((sum, time) => sum + time, 0) / bedtimes.length;
-    const variance = bedtimes.reduce((sum, time) => sum + Math.pow(time - mean, 2), 0) / bedtimes.length;
-    const stdDev = Math.sqrt(variance);
-    
-    // Convert to consistency score (lower std dev = higher consistency)
-    const maxStdDev = 120; // 2 hours
-    const consistency = Math.max(0, (maxStdDev - stdDev) / maxStdDev) * 100;
-    
-    return Math.round(consistency);
+    const settings = await this.getSettings();
+    return calculateConsistencyScore(
+      recentSessions.map(session => new Date(session.bedtime)),
+      settings.sleepSchedule ?? DEFAULT_SLEEP_SCHEDULE
+    );
   }
 }
 
@@ -0,0 +1,27 @@
+import Constants from 'expo-constants';
+import { SleepRepository } from './sleepRepository';
+import { AsyncStorageSleepRepository } from './asyncStorageRepository';
+import { InMemorySleepRepository } from './memoryRepository';
+import { createSQLiteRepository } from './sqliteBackend';
+
+export type StorageBackend = 'async-storage' | 'memory' | 'sqlite';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['async-storage', 'memory', 'sqlite'];
+
+// The one place the backend is chosen: "storageBackend" under expo.extra in
+// app.json. Anything else falls back to AsyncStorage.
+const configuredBackend = Constants.expoConfig?.extra?.storageBackend;
+export const STORAGE_BACKEND: StorageBackend = STORAGE_BACKENDS.includes(configuredBackend)
+  ? configuredBackend
+  : 'async-storage';
+
+export function createSleepRepository(backend: StorageBackend = STORAGE_BACKEND): SleepRepository {
+  switch (backend) {
+    case 'memory':
+      return new InMemorySleepRepository();
+    case 'sqlite':
+      return createSQLiteRepository();
+    case 'async-storage':
+      return new AsyncStorageSleepRepository();
+  }
+}
@@ -0,0 +1,216 @@
+import { StoredEnvelope } from '@/types/sleep';
+import { classifySessionKind } from './napDetection';
+
+// Migrations describe the data as it was stored at the time, so they name
+// keys and fields literally instead of borrowing StorageService's current ones.
+const SCHEMA_VERSION_KEY = 'schema_version';
+const SESSIONS_KEY = 'sleep_sessions';
+const SETTINGS_KEY = 'sleep_settings';
+const SESSION_INDEX_KEY = 'sleep_sessions_index';
+const SESSION_PARTITION_KEY_PREFIX = 'sleep_sessions_';
+
+// Parsed value of each key a migration works on; null when the key is absent
+export type MigrationSnapshot = Record<string, unknown>;
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  keys: string[]; // keys it reads
+  // Further keys it reads that depend on the data, e.g. one per month;
+  // the snapshot already holds the keys above
+  dependentKeys?(snapshot: MigrationSnapshot): string[];
+  // Returns the keys it changed, including new ones; null removes a key.
+  // Must leave data already in the new shape as it is, since an interrupted
+  // run is repeated from the last recorded version.
+  migrate(snapshot: MigrationSnapshot): MigrationSnapshot;
+}
+
+// The subset of AsyncStorage the runner needs, so it can run against a fake
+export interface MigrationStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  multiSet(keyValuePairs: readonly (readonly [string, string])[]): Promise<void>;
+  multiRemove(keys: readonly string[]): Promise<void>;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  applied: number[];
+}
+
+export function isEnvelope(value: unknown): value is StoredEnvelope<unknown> {
+  return typeof value === 'object'
+    && value !== null
+    && typeof (value as StoredEnvelope<unknown>).schemaVersion === 'number'
+    && 'data' in value;
+}
+
+// Data a failed migration left in its pre-envelope shape is read as is
+export function unwrapEnvelope<T>(value: unknown): T {
+  return (isEnvelope(value) ? value.data : value) as T;
+}
+
+// Throws on an unreadable bedtime, which aborts the migration
+const getMonth = (session: any): string => new Date(session.bedtime).toISOString().slice(0, 7);
+
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Wrap sessions and settings in a versioned envelope',
+    keys: [SESSIONS_KEY, SETTINGS_KEY],
+    migrate(snapshot) {
+      const changed: MigrationSnapshot = {};
+      [SESSIONS_KEY, SETTINGS_KEY].forEach(key => {
+        const value = snapshot[key];
+        if (value !== null && !isEnvelope(value)) {
+          changed[key] = { schemaVersion: 1, data: value };
+        }
+      });
+      return changed;
+    },
+  },
+  {
+    version: 2,
+    description: 'Classify sessions saved before naps existed',
+    keys: [SESSIONS_KEY],
+    migrate(snapshot) {
+      const value = snapshot[SESSIONS_KEY];
+      if (value === null) return {};
+
+      const sessions = unwrapEnvelope<any[]>(value);
+      if (!Array.isArray(sessions)) {
+        throw new Error(`${SESSIONS_KEY} is not a list of sessions`);
+      }
+
+      return {
+        [SESSIONS_KEY]: {
+          schemaVersion: 2,
+          data: sessions.map(session => session.kind
+            ? session
+            : { ...session, kind: classifySessionKind(new Date(session.bedtime), session.duration ?? 0) }),
+        },
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Split sessions into monthly partitions',
+    // Sessions saved while this migration was pending are already in the
+    // index and partitions; they are merged with, not overwritten
+    keys: [SESSIONS_KEY, SESSION_INDEX_KEY],
+    dependentKeys(snapshot) {
+      const value = snapshot[SESSIONS_KEY];
+      if (value === null) return [];
+
+      const sessions = unwrapEnvelope<any[]>(value);
+      if (!Array.isArray(sessions)) return [];
+      return Array.from(new Set(sessions.map(session => SESSION_PARTITION_KEY_PREFIX + getMonth(session))));
+    },
+    migrate(snapshot) {
+      const value = snapshot[SESSIONS_KEY];
+      if (value === null) return {};
+
+      const sessions = unwrapEnvelope<any[]>(value);
+      if (!Array.isArray(sessions)) {
+        throw new Error(`${SESSIONS_KEY} is not a list of sessions`);
+      }
+
+      const index = snapshot[SESSION_INDEX_KEY] === null
+        ? { months: [], sessionMonths: {} }
+        : unwrapEnvelope<{ months: string[]; sessionMonths: Record<string, string> }>(snapshot[SESSION_INDEX_KEY]);
+      const months = new Set(index.months);
+      const sessionMonths = { ...index.sessionMonths };
+      const partitions: Record<string, any[]> = {};
+      sessions.forEach(session => {
+        // A session saved since has the newer copy, possibly in another month
+        if (sessionMonths[session.id]) return;
+
+        const month = getMonth(session);
+        const key = SESSION_PARTITION_KEY_PREFIX + month;
+        const stored = partitions[month]
+          ?? (snapshot[key] === null || snapshot[key] === undefined ? [] : unwrapEnvelope<any[]>(snapshot[key]));
+        partitions[month] = [...stored, session];
+        sessionMonths[session.id] = month;
+        months.add(month);
+      });
+
+      const changed: MigrationSnapshot = {
+        [SESSIONS_KEY]: null,
+        [SESSION_INDEX_KEY]: {
+          schemaVersion: 3,
+          data: { months: Array.from(months).sort(), sessionMonths },
+        },
+      };
+      Object.entries(partitions).forEach(([month, monthSessions]) => {
+        changed[SESSION_PARTITION_KEY_PREFIX + month] = { schemaVersion: 3, data: monthSessions };
+      });
+      return changed;
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = Math.max(...STORAGE_MIGRATIONS.map(migration => migration.version));
+
+export function wrapEnvelope<T>(data: T): StoredEnvelope<T> {
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, data };
+}
+
+// Brings stored data up to the current schema. Every pending migration runs
+// on an in-memory copy and nothing is written unless all of them succeed, so
+// a failure leaves the stored data as it was. The version is recorded last.
+// Only keys a migration declared can be removed.
+export async function runMigrations(
+  store: MigrationStore,
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS
+): Promise<MigrationResult> {
+  const storedVersion = await store.getItem(SCHEMA_VERSION_KEY);
+  const from = storedVersion ? parseInt(storedVersion, 10) : 0;
+  const pending = migrations
+    .filter(migration => migration.version > from)
+    .sort((a, b) => a.version - b.version);
+  if (pending.length === 0) {
+    return { from, to: from, applied: [] };
+  }
+
+  const original: Record<string, string | null> = {};
+  const snapshot: MigrationSnapshot = {};
+  // Keys are read once, before the first migration that needs them; one an
+  // earlier migration already wrote keeps that value
+  const read = async (keys: string[]) => {
+    for (const key of keys.filter(key => !(key in snapshot))) {
+      original[key] = await store.getItem(key);
+      snapshot[key] = original[key] === null ? null : JSON.parse(original[key] as string);
+    }
+  };
+
+  for (const migration of pending) {
+    try {
+      await read(migration.keys);
+      await read(migration.dependentKeys?.({ ...snapshot }) ?? []);
+      Object.assign(snapshot, migration.migrate({ ...snapshot }));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Storage migration ${migration.version} (${migration.description}) failed: ${reason}`);
+    }
+  }
+  const keys = Object.keys(original);
+
+  // New data goes in before old keys are removed, so an interrupted run
+  // still has everything it needs when it is repeated
+  const changes = Object.keys(snapshot)
+    .filter(key => snapshot[key] !== null)
+    .map(key => [key, JSON.stringify(snapshot[key])] as const)
+    .filter(([key, json]) => json !== original[key]);
+  const removals = keys.filter(key => snapshot[key] === null && original[key] !== null);
+  if (changes.length > 0) {
+    await store.multiSet(changes);
+  }
+  if (removals.length > 0) {
+    await store.multiRemove(removals);
+  }
+
+  const to = pending[pending.length - 1].version;
+  await store.setItem(SCHEMA_VERSION_KEY, to.toString());
+  return { from, to, applied: pending.map(migration => migration.version) };
+}
@@ -0,0 +1,101 @@
+import {
+  AlarmEvent,
+  DetectionCheckpoint,
+  DetectionLogEntry,
+  JetLagTrip,
+  MotionBaseline,
+  SessionActigraphy,
+  SleepSession,
+  SmartAlarm,
+} from '@/types/sleep';
+import { classifySessionKind } from './napDetection';
+import { SleepRecordName, SleepRecords } from './sleepRepository';
+
+// Turns parsed JSON back into typed records. Shared by the backends that store
+// JSON text; the in-memory one keeps the objects themselves.
+
+export function reviveSession(session: any): SleepSession {
+  const bedtime = new Date(session.bedtime);
+  return {
+    ...session,
+    // Schema 2 classifies older sessions; this covers data a failed
+    // migration left behind
+    kind: session.kind ?? classifySessionKind(bedtime, session.duration ?? 0),
+    bedtime,
+    wakeTime: session.wakeTime ? new Date(session.wakeTime) : null,
+    inBedTime: session.inBedTime ? new Date(session.inBedTime) : undefined,
+    sleepOnset: session.sleepOnset ? new Date(session.sleepOnset) : undefined,
+    finalAwakening: session.finalAwakening ? new Date(session.finalAwakening) : undefined,
+    outOfBedTime: session.outOfBedTime ? new Date(session.outOfBedTime) : undefined,
+    hypnogram: session.hypnogram
+      ? { ...session.hypnogram, startTime: new Date(session.hypnogram.startTime) }
+      : undefined,
+    gaps: session.gaps
+      ? session.gaps.map((gap: any) => ({ start: new Date(gap.start), end: new Date(gap.end) }))
+      : undefined,
+    interruptions: session.interruptions
+      ? session.interruptions.map((interruption: any) => ({
+          start: new Date(interruption.start),
+          end: new Date(interruption.end),
+        }))
+      : undefined,
+    alarm: session.alarm ? reviveAlarmEvent(session.alarm) : undefined,
+    createdAt: session.createdAt ? new Date(session.createdAt) : undefined,
+    updatedAt: session.updatedAt ? new Date(session.updatedAt) : undefined,
+  };
+}
+
+function reviveAlarmEvent(event: any): AlarmEvent {
+  return {
+    ...event,
+    firedAt: new Date(event.firedAt),
+  };
+}
+
+export function reviveActigraphy(actigraphy: any): SessionActigraphy {
+  return {
+    ...actigraphy,
+    startTime: new Date(actigraphy.startTime),
+  };
+}
+
+export function reviveLogEntry(entry: any): DetectionLogEntry {
+  return { ...entry, at: new Date(entry.at) };
+}
+
+const reviveMotionBaseline = (baseline: any): MotionBaseline => ({
+  ...baseline,
+  updatedAt: new Date(baseline.updatedAt),
+});
+
+const reviveCheckpoint = (checkpoint: any): DetectionCheckpoint => ({
+  ...checkpoint,
+  session: reviveSession(checkpoint.session),
+  lastActivity: new Date(checkpoint.lastActivity),
+  savedAt: new Date(checkpoint.savedAt),
+});
+
+const reviveSmartAlarm = (alarm: any): SmartAlarm => ({
+  ...alarm,
+  latestWakeTime: new Date(alarm.latestWakeTime),
+  snoozedUntil: alarm.snoozedUntil ? new Date(alarm.snoozedUntil) : undefined,
+  lastFired: alarm.lastFired ? reviveAlarmEvent(alarm.lastFired) : undefined,
+});
+
+const reviveJetLagTrip = (trip: any): JetLagTrip => ({
+  ...trip,
+  createdAt: new Date(trip.createdAt),
+});
+
+const RECORD_REVIVERS: { [K in SleepRecordName]: (value: any) => SleepRecords[K] } = {
+  settings: settings => settings,
+  trackingStatus: isTracking => isTracking === true,
+  motionBaseline: reviveMotionBaseline,
+  detectionCheckpoint: reviveCheckpoint,
+  smartAlarm: reviveSmartAlarm,
+  jetLagTrip: reviveJetLagTrip,
+};
+
+export function reviveRecord<K extends SleepRecordName>(name: K, value: any): SleepRecords[K] {
+  return RECORD_REVIVERS[name](value);
+}
@@ -0,0 +1,220 @@
+import { SleepSession } from '@/types/sleep';
+
+// Sessions remember the zone they were recorded in, so a night keeps its
+// calendar day and clock times after travel or a DST change. Sessions saved
+// before zones were recorded fall back to the device zone.
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export function getDeviceTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch (error) {
+    console.error('Failed to read the device time zone:', error);
+    return undefined;
+  }
+}
+
+// Reads the wall-clock parts of a date as a fixed UTC offset would show them
+const getOffsetParts = (date: Date, utcOffset: number): ZonedDateParts => {
+  const shifted = new Date(date.getTime() + utcOffset * 60 * 1000);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    weekday: shifted.getUTCDay(),
+  };
+};
+
+// Wall-clock parts in the given zone. Without a zone (or when the runtime
+// cannot resolve it) the fallback offset is used, then the device zone.
+export function getZonedDateParts(date: Date, timeZone?: string, fallbackOffset?: number): ZonedDateParts {
+  if (timeZone) {
+    try {
+      const parts = Object.fromEntries(
+        getPartsFormatter(timeZone).formatToParts(date).map(part => [part.type, part.value])
+      );
+      return {
+        year: parseInt(parts.year, 10),
+        month: parseInt(parts.month, 10),
+        day: parseInt(parts.day, 10),
+        hour: parseInt(parts.hour, 10) % 24,
+        minute: parseInt(parts.minute, 10),
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+      };
+    } catch (error) {
+      console.error(`Failed to resolve time zone ${timeZone}:`, error);
+    }
+  }
+
+  return getOffsetParts(date, fallbackOffset ?? -date.getTimezoneOffset());
+}
+
+// Minutes east of UTC in the given zone at that instant
+export function getUtcOffset(date: Date, timeZone?: string): number {
+  if (!timeZone) return -date.getTimezoneOffset();
+
+  const parts = getZonedDateParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const wholeMinutes = Math.floor(date.getTime() / (60 * 1000)) * 60 * 1000;
+  return Math.round((asUtc - wholeMinutes) / (60 * 1000));
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The instant a wall-clock time (minutes after midnight on a YYYY-MM-DD day)
+// happens in the given zone
+export function fromZonedTime(dayKey: string, minutesOfDay: number, timeZone: string): Date {
+  const [year, month, day] = dayKey.split('-').map(part => parseInt(part, 10));
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutesOfDay);
+  // The offset at the first guess can be off by a DST change, so check again
+  const guess = new Date(wallClock - getUtcOffset(new Date(wallClock), timeZone) * 60 * 1000);
+  return new Date(wallClock - getUtcOffset(guess, timeZone) * 60 * 1000);
+}
+
+// Records the zone a session is happening in. Sessions that already have
+// one keep it, so editing a session abroad does not move it.
+export function stampTimeZone(session: SleepSession): SleepSession {
+  if (session.timeZone !== undefined && session.utcOffset !== undefined) return session;
+
+  const timeZone = session.timeZone ?? getDeviceTimeZone();
+  return {
+    ...session,
+    timeZone,
+    utcOffset: session.utcOffset ?? getUtcOffset(session.bedtime, timeZone),
+  };
+}
+
+export function getSessionDateParts(session: SleepSession, date: Date = session.bedtime): ZonedDateParts {
+  return getZonedDateParts(date, session.timeZone, session.utcOffset);
+}
+
+export const toDayKey = ({ year, month, day }: ZonedDateParts): string =>
+  `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+
+// Calendar day the session started on, where it was recorded
+export function getSessionDayKey(session: SleepSession): string {
+  return toDayKey(getSessionDateParts(session));
+}
+
+// Calendar day of a date on this device, for comparing against session days
+export function getLocalDayKey(date: Date): string {
+  return toDayKey(getZonedDateParts(date));
+}
+
+// Groups sessions by the calendar day they started on, where they were recorded
+export function groupSessionsByDay(sessions: SleepSession[]): Map<string, SleepSession[]> {
+  const days = new Map<string, SleepSession[]>();
+  sessions.forEach(session => {
+    const day = getSessionDayKey(session);
+    days.set(day, [...(days.get(day) ?? []), session]);
+  });
+  return days;
+}
+
+const TIME_FORMAT: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+
+// Clock time as it was where the session was recorded
+export function formatSessionTime(
+  session: SleepSession,
+  date: Date,
+  options: Intl.DateTimeFormatOptions = TIME_FORMAT,
+  locale = 'es-ES'
+): string {
+  if (session.timeZone) {
+    try {
+      return date.toLocaleTimeString(locale, { ...options, timeZone: session.timeZone });
+    } catch (error) {
+      console.error(`Failed to format time in ${session.timeZone}:`, error);
+    }
+  }
+  if (session.utcOffset === undefined) {
+    return date.toLocaleTimeString(locale, options);
+  }
+
+  const { hour, minute } = getSessionDateParts(session, date);
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+export function formatSessionDate(
+  session: SleepSession,
+  date: Date,
+  options: Intl.DateTimeFormatOptions,
+  locale = 'es-ES'
+): string {
+  if (session.timeZone) {
+    try {
+      return date.toLocaleDateString(locale, { ...options, timeZone: session.timeZone });
+    } catch (error) {
+      console.error(`Failed to format date in ${session.timeZone}:`, error);
+    }
+  }
+  if (session.utcOffset === undefined) {
+    return date.toLocaleDateString(locale, options);
+  }
+
+  // Local noon of the recorded day formats as that day on this device
+  const { year, month, day } = getSessionDateParts(session, date);
+  return new Date(year, month - 1, day, 12).toLocaleDateString(locale, options);
+}
+
+// Minutes the night gained from a clock change, e.g. +60 when DST ended
+// overnight: 23:00 to 07:00 then lasted nine hours, not eight
+export function getClockShift(session: SleepSession): number {
+  if (!session.wakeTime) return 0;
+
+  const offsetAt = (date: Date) => session.timeZone
+    ? getUtcOffset(date, session.timeZone)
+    : session.utcOffset ?? -date.getTimezoneOffset();
+  return offsetAt(session.bedtime) - offsetAt(session.wakeTime);
+}
+
+// Whether the device zone would show this session at different clock times
+// than where it was recorded
+export function isRecordedElsewhere(session: SleepSession): boolean {
+  if (session.utcOffset === undefined) return false;
+
+  const deviceTimeZone = getDeviceTimeZone();
+  if (session.timeZone && deviceTimeZone) {
+    return session.timeZone !== deviceTimeZone;
+  }
+  return session.utcOffset !== getUtcOffset(session.bedtime);
+}
@@ -0,0 +1,48 @@
+import { MotionPermissionStatus, TrackingState } from '@/types/sleep';
+
+export const TRACKING_STATE_LABELS: Record<TrackingState, string> = {
+  'disabled': 'La detección automática está desactivada',
+  'needs-permission': 'Permite el acceso al movimiento para detectar tu sueño',
+  'denied': 'El acceso al movimiento está bloqueado en los ajustes del sistema',
+  'starting': 'Iniciando la detección automática…',
+  'active': 'Detección automática activa',
+  'paused': 'Detección automática en pausa',
+  'error': 'No se pudo iniciar la detección automática',
+};
+
+// The recovery each state offers; 'starting' has nothing to do but wait
+export type TrackingAction = 'enable' | 'request-permission' | 'open-settings' | 'pause' | 'resume' | 'retry';
+
+export const TRACKING_ACTIONS: Record<TrackingState, TrackingAction | null> = {
+  'disabled': 'enable',
+  'needs-permission': 'request-permission',
+  'denied': 'open-settings',
+  'starting': null,
+  'active': 'pause',
+  'paused': 'resume',
+  'error': 'retry',
+};
+
+export const TRACKING_ACTION_LABELS: Record<TrackingAction, string> = {
+  'enable': 'Activar',
+  'request-permission': 'Permitir',
+  'open-settings': 'Abrir Ajustes',
+  'pause': 'Pausar',
+  'resume': 'Reanudar',
+  'retry': 'Reintentar',
+};
+
+// Where tracking should be on launch, before anything is started. A stored
+// 'false' means the user paused it; null means it never ran, so permission
+// is asked for from the UI instead of prompting on first launch.
+export function resolveTrackingState(
+  autoDetectionEnabled: boolean,
+  permission: MotionPermissionStatus,
+  storedTracking: boolean | null
+): TrackingState | 'start' {
+  if (!autoDetectionEnabled) return 'disabled';
+  if (permission === 'denied') return 'denied';
+  if (storedTracking === false) return 'paused';
+  if (permission === 'requestable') return 'needs-permission';
+  return 'start';
+}
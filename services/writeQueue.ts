@@ -0,0 +1,15 @@
+// Runs writes one at a time, in the order they were queued. Each write is a
+// whole read-modify-write, so two callers changing the same data at once
+// can't overwrite each other's changes.
+export class WriteQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  // A task must not queue another write on the same queue and wait for it:
+  // that write only starts after the task ends
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task);
+    // A failed write doesn't hold up the ones queued after it
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
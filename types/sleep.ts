@@ -1,16 +1,146 @@
+export type SleepSessionKind = 'main' | 'nap';
+
 export interface SleepSession {
   id: string;
+  kind: SleepSessionKind;
   bedtime: Date;
   wakeTime: Date | null;
   duration: number; // in milliseconds
+  inBedTime?: Date; // got into bed, before trying to sleep
+  sleepOnset?: Date; // fell asleep
+  finalAwakening?: Date; // last awakening before getting up
+  outOfBedTime?: Date; // got out of bed
   quality: number; // 0-100 percentage
   isManual: boolean;
-  confidence: number; // 0-1 confidence level for automatic detection
+  confidence: number; // 0-1, mean sleep probability over an automatic session
+  reviewStatus?: SessionReviewStatus; // set on automatic sessions below the review threshold
   notes?: string;
+  hypnogram?: Hypnogram;
+  gaps?: SessionGap[]; // periods with no data, e.g. while the app was killed
+  interruptions?: SleepInterruption[]; // brief awakenings that didn't end the session
+  interruptionCount?: number;
+  wakeAfterSleepOnset?: number; // WASO in milliseconds
+  alarm?: AlarmEvent; // smart alarm that fired during this session
+  sensorUsage?: SensorUsage; // how long the motion sensor ran while tracking
+  hasActigraphy?: boolean; // per-epoch activity is archived under its own key
+  timeZone?: string; // IANA zone the session was recorded in, e.g. 'Europe/Madrid'
+  utcOffset?: number; // minutes east of UTC at bedtime
+  overlapsWith?: string[]; // ids of stored sessions it overlaps, kept on purpose
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// Low-confidence automatic sessions wait for the user to confirm them
+export type SessionReviewStatus = 'pending' | 'confirmed';
+
+// What saving does with a session that overlaps stored ones
+export type SessionOverlapPolicy = 'reject' | 'merge' | 'keep-both';
+
+// Why a session can't be saved as it is
+export type SessionValidationIssue =
+  | { code: 'wake-before-bedtime' }
+  | { code: 'duration-mismatch'; expectedDuration: number }
+  | { code: 'quality-out-of-range' }
+  | { code: 'overlap'; sessions: SleepSession[] };
+
+export interface SmartAlarm {
+  id: string;
+  latestWakeTime: Date; // the alarm rings at this time at the latest
+  windowMinutes: number; // how early it may ring if the user is in light sleep
+  snoozeMinutes: number;
+  snoozedUntil?: Date;
+  lastFired?: AlarmEvent;
+}
+
+export type AlarmTrigger = 'light-sleep' | 'deadline' | 'snooze';
+
+export interface AlarmEvent {
+  alarmId: string;
+  firedAt: Date;
+  reason: AlarmTrigger;
+  stage?: SleepStage; // stage that triggered a light-sleep wake-up
+  snoozeCount: number;
+}
+
+// How often the motion sensor is sampled while tracking. 'continuous' is used
+// when battery optimization is off.
+export type SamplingMode = 'continuous' | 'awake' | 'transition' | 'still';
+
+export interface SamplingProfile {
+  motionInterval: number; // in milliseconds between motion samples
+  detectionInterval: number; // in milliseconds between detection passes
+}
+
+export interface SensorUsage {
+  trackedTime: number; // in milliseconds the session was tracked live
+  sensorOnTime: number; // estimated full-rate sensor time, in milliseconds
+  modeDurations: Partial<Record<SamplingMode, number>>;
+}
+
+export interface SleepInterruption {
+  start: Date;
+  end: Date;
+}
+
+export interface SessionGap {
+  start: Date;
+  end: Date;
+}
+
+export type SleepStage = 'awake' | 'light' | 'deep' | 'rem';
+
+export interface Hypnogram {
+  startTime: Date;
+  epochDuration: number; // in milliseconds
+  stages: SleepStage[]; // one entry per epoch, starting at startTime
+}
+
+export interface ActivityEpoch {
+  start: number; // epoch start timestamp
+  activity: number; // mean acceleration magnitude over the epoch
+}
+
+// Per-epoch activity of one session, kept so old nights can be redrawn and
+// re-scored. Stored apart from the sessions list and loaded on demand.
+export interface SessionActigraphy {
+  sessionId: string;
+  startTime: Date; // start of the first epoch
+  epochDuration: number; // in milliseconds
+  activity: (number | null)[]; // mean magnitude per epoch, null without samples
+}
+
+// Snapshot of an open automatic session, saved periodically so the night
+// survives the app being killed
+export interface DetectionCheckpoint {
+  session: SleepSession;
+  lastActivity: Date;
+  savedAt: Date;
+  activityEpochs: ActivityEpoch[]; // since bedtime
+  confidenceTicks?: number; // detection ticks averaged into the session's confidence
+}
+
+// Per-device motion profile learned from the first tracked nights
+export interface MotionBaseline {
+  nightsObserved: number;
+  noiseFloor: number; // typical epoch activity while lying still
+  movementLevel: number; // typical epoch activity when moving in bed
+  updatedAt: Date;
+}
+
+// Sessions and settings are stored wrapped with the schema version they were
+// written in (see storageMigrations.ts)
+export interface StoredEnvelope<T> {
+  schemaVersion: number;
+  data: T;
+}
+
+// Which monthly partition holds each session, so reads and writes only load
+// the months they need
+export interface SessionPartitionIndex {
+  months: string[]; // YYYY-MM in UTC, ascending
+  sessionMonths: Record<string, string>; // session id -> month
+}
+
 export interface SleepSettings {
   autoDetectionEnabled: boolean;
   notificationsEnabled: boolean;
@@ -18,13 +148,79 @@ export interface SleepSettings {
   bedtimeReminder?: Date;
   wakeUpReminder?: Date;
   sleepGoalHours: number;
-  detectionSensitivity: 'low' | 'medium' | 'high';
+  detectionSensitivity: DetectionSensitivity;
+  sustainedWakeMinutes: number; // wake time needed before a session is closed
+  customThresholds?: DetectionThresholds; // used when detectionSensitivity is 'custom'
+  reviewConfidenceThreshold: number; // automatic sessions below this need review, 0 disables
+  sleepSchedule: SleepSchedule; // when the user usually sleeps; drives detection and reminders
+}
+
+// Minutes after local midnight. A window whose end is before its start runs
+// past midnight and belongs to the day it starts on.
+export interface SleepWindow {
+  start: number;
+  end: number;
+}
+
+export interface SleepScheduleDay {
+  sleep: SleepWindow;
+  nap: SleepWindow | null; // when a daytime nap is likely
+}
+
+export type SleepScheduleType = 'fixed' | 'weekly' | 'rotating';
+
+export type SleepSchedule =
+  | { type: 'fixed'; day: SleepScheduleDay }
+  | { type: 'weekly'; days: SleepScheduleDay[] } // 7 days, Sunday first
+  | { type: 'rotating'; startDate: string; days: SleepScheduleDay[] }; // cycle repeats from startDate (YYYY-MM-DD)
+
+export interface JetLagTrip {
+  id: string;
+  originTimeZone: string; // IANA zone the user travels from
+  destinationTimeZone: string;
+  departureDate: string; // YYYY-MM-DD in the origin zone
+  returnDate?: string; // YYYY-MM-DD in the destination zone; the plan stops there
+  usualSleep: SleepWindow; // from the schedule when the trip was planned
+  createdAt: Date;
+}
+
+export type JetLagPhase = 'pre-trip' | 'arrival' | 'adapting' | 'adapted';
+
+export interface JetLagPlanDay {
+  date: string; // YYYY-MM-DD in the zone the user is in that day
+  timeZone: string; // zone the times below are in
+  phase: JetLagPhase;
+  sleep: SleepWindow; // planned bedtime and wake time
+  seekLight: SleepWindow | null;
+  avoidLight: SleepWindow | null;
+}
+
+export interface JetLagDayProgress {
+  day: JetLagPlanDay;
+  plannedBedtime: Date;
+  actualBedtime: Date | null; // main sleep closest to the plan, if any
+  deviation: number | null; // minutes later (positive) or earlier than planned
+}
+
+export type DetectionSensitivity = 'low' | 'medium' | 'high' | 'custom';
+
+export interface DetectionThresholds {
+  inactivityThreshold: number; // in milliseconds
+  motionThreshold: number; // accelerometer magnitude counted as activity
+  sleepConfidenceThreshold: number; // 0-1 probability needed to open a session
+}
+
+export interface MotionCalibration {
+  restLevel: number; // mean magnitude with the phone on the nightstand
+  handLevel: number; // mean magnitude with the phone held in hand
 }
 
 export interface SleepAnalytics {
   averageDuration: number;
   averageQuality: number;
   consistencyScore: number;
+  sleepOnsetLatency: number | null; // in milliseconds
+  sleepEfficiency: number | null; // 0-100, time asleep over time in bed
   sleepDebt: number;
   weeklyTrend: 'improving' | 'declining' | 'stable';
   bestSleepDay: string;
@@ -45,10 +241,70 @@ export interface DeviceMotionData {
   };
 }
 
+export type PowerState = 'charging' | 'unplugged' | 'unknown';
+
+export type AppVisibility = 'active' | 'inactive' | 'background';
+
+// Per-signal contribution to sleepProbability; negative values argue for wake
+// Weighted contribution of each signal provider, keyed by provider id
+export type SleepSignalContributions = Record<string, number>;
+
+// Lifecycle of automatic detection, shared by the service, dashboard and settings
+export type TrackingState =
+  | 'disabled' // auto-detection turned off in settings
+  | 'needs-permission' // motion access can still be requested
+  | 'denied' // motion access refused; only the system settings can change it
+  | 'starting'
+  | 'active'
+  | 'paused' // stopped by the user while auto-detection stays on
+  | 'error'; // failed to start, can be retried
+
+export interface TrackingStatus {
+  state: TrackingState;
+  error: string | null; // why starting failed, in the 'error' state
+  changedAt: Date;
+}
+
+export type MotionPermissionStatus = 'granted' | 'requestable' | 'denied';
+
 export interface SleepDetectionState {
   isTracking: boolean;
+  trackingStatus: TrackingStatus;
   currentSession: SleepSession | null;
   lastActivity: Date;
   inactivityDuration: number;
   sleepProbability: number;
-}
\ No newline at end of file
+  signals: SleepSignalContributions;
+  powerState: PowerState;
+  appState: AppVisibility;
+  samplingMode: SamplingMode;
+}
+
+export type DetectionAction =
+  | 'none'
+  | 'session-opened'
+  | 'awakening-started'
+  | 'interruption-recorded'
+  | 'session-closed';
+
+// One detection pass, kept so a night's decisions can be explained later
+export interface DetectionLogEntry {
+  at: Date;
+  inactivity: number; // in milliseconds
+  signals: SleepSignalContributions;
+  probability: number;
+  threshold: number; // open threshold when idle, wake threshold in a session
+  inSession: boolean;
+  napWindow: boolean; // nap rules applied to opening a session
+  action: DetectionAction;
+}
+
+// Emitted by SleepDetectionService so screens can follow detection live
+export type SleepDetectionEvent =
+  | { type: 'tracking-started'; at: Date }
+  | { type: 'tracking-stopped'; at: Date }
+  | { type: 'tracking-state-changed'; status: TrackingStatus }
+  | { type: 'session-opened'; session: SleepSession; resumed: boolean }
+  | { type: 'session-closed'; session: SleepSession }
+  | { type: 'probability-updated'; state: SleepDetectionState }
+  | { type: 'error'; error: Error; operation: string };